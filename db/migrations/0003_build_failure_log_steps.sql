@@ -0,0 +1,4 @@
+-- Per-job / per-step breakdown of the run logs (names, conclusions, timing,
+-- excerpt of failing steps). Written by /api/graph-run after log download.
+ALTER TABLE build_failures
+  ADD COLUMN IF NOT EXISTS log_steps_json LONGTEXT NULL AFTER log_content;
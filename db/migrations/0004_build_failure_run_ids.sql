@@ -0,0 +1,16 @@
+-- Persist the exact GitHub identifiers delivered by the webhook so log
+-- retrieval can go straight to the failed job instead of re-discovering the run.
+ALTER TABLE build_failures ADD COLUMN IF NOT EXISTS run_attempt INT NULL AFTER run_id;
+ALTER TABLE build_failures ADD COLUMN IF NOT EXISTS job_id BIGINT NULL AFTER run_attempt;
+ALTER TABLE build_failures ADD COLUMN IF NOT EXISTS check_suite_id BIGINT NULL AFTER job_id;
+
+-- run_id is no longer unique (several failed jobs share one run); idempotency
+-- moves to ingest_key: 'job:<job_id>' or 'run:<run_id>:<attempt>'
+ALTER TABLE build_failures ADD COLUMN IF NOT EXISTS ingest_key VARCHAR(191) NULL AFTER check_suite_id;
+UPDATE build_failures
+   SET ingest_key = CONCAT('run:', run_id, ':1')
+ WHERE run_id IS NOT NULL AND ingest_key IS NULL;
+
+ALTER TABLE build_failures DROP INDEX IF EXISTS run_id;
+CREATE UNIQUE INDEX IF NOT EXISTS ux_bf_ingest_key ON build_failures (ingest_key);
+CREATE INDEX IF NOT EXISTS idx_bf_run ON build_failures (run_id);
@@ -0,0 +1,6 @@
+-- Branch of the failing run: lets push/schedule builds (no PR) be analyzed
+-- and reported against main / release branches.
+ALTER TABLE build_failures ADD COLUMN IF NOT EXISTS head_branch VARCHAR(255) NULL AFTER commit_sha;
+
+ALTER TABLE outbound_actions
+  MODIFY COLUMN action_type ENUM('pr_review','commit_comment','issue') NOT NULL DEFAULT 'pr_review';
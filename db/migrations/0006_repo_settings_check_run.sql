@@ -0,0 +1,12 @@
+-- Per-repo delivery preferences (e.g. teams that find review comments noisy
+-- can receive a "ResolvCI" check run with annotations instead).
+CREATE TABLE IF NOT EXISTS repo_settings (
+  repo_owner     VARCHAR(200) NOT NULL,
+  repo_name      VARCHAR(200) NOT NULL,
+  review_channel ENUM('pr_review','check_run') NOT NULL DEFAULT 'pr_review',
+  updated_at     DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  PRIMARY KEY (repo_owner, repo_name)
+);
+
+ALTER TABLE outbound_actions
+  MODIFY COLUMN action_type ENUM('pr_review','check_run','commit_comment','issue') NOT NULL DEFAULT 'pr_review';
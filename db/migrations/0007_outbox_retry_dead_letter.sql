@@ -0,0 +1,10 @@
+-- Retry scheduling + dead-letter state for the outbox.
+--   error      → retryable failure, re-selected once next_attempt_at has passed
+--   dead       → non-retryable failure or attempts exhausted (operator: requeue/discard)
+--   discarded  → dropped by an operator
+ALTER TABLE outbound_actions ADD COLUMN IF NOT EXISTS next_attempt_at DATETIME NULL AFTER attempt_count;
+
+ALTER TABLE outbound_actions
+  MODIFY COLUMN status ENUM('staged','dispatched','error','dead','discarded') NOT NULL DEFAULT 'staged';
+
+CREATE INDEX IF NOT EXISTS ix_status_next_attempt ON outbound_actions (status, next_attempt_at);
@@ -0,0 +1,10 @@
+-- Lease-based claim for outbox dispatch. A dispatcher moves a due row to
+-- 'dispatching' with a conditional UPDATE (claimed_by + lease_expires_at);
+-- concurrent dispatchers can't both win, and expired leases are reclaimed.
+ALTER TABLE outbound_actions ADD COLUMN IF NOT EXISTS claimed_by VARCHAR(128) NULL AFTER next_attempt_at;
+ALTER TABLE outbound_actions ADD COLUMN IF NOT EXISTS lease_expires_at DATETIME NULL AFTER claimed_by;
+
+ALTER TABLE outbound_actions
+  MODIFY COLUMN status ENUM('staged','dispatching','dispatched','error','dead','discarded') NOT NULL DEFAULT 'staged';
+
+CREATE INDEX IF NOT EXISTS ix_status_lease ON outbound_actions (status, lease_expires_at);
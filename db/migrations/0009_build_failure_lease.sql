@@ -0,0 +1,14 @@
+-- Lease for failure analysis. /api/graph-run claims a 'new' row with a lease
+-- and heartbeats while it works; rows whose lease expired (timeout/crash) are
+-- swept back to 'new', and parked as 'failed' (with last_error) once they
+-- run out of attempts.
+ALTER TABLE build_failures ADD COLUMN IF NOT EXISTS claimed_by VARCHAR(128) NULL AFTER status;
+ALTER TABLE build_failures ADD COLUMN IF NOT EXISTS lease_expires_at DATETIME NULL AFTER claimed_by;
+ALTER TABLE build_failures ADD COLUMN IF NOT EXISTS heartbeat_at DATETIME NULL AFTER lease_expires_at;
+ALTER TABLE build_failures ADD COLUMN IF NOT EXISTS attempt_count INT NOT NULL DEFAULT 0 AFTER heartbeat_at;
+ALTER TABLE build_failures ADD COLUMN IF NOT EXISTS last_error TEXT NULL AFTER attempt_count;
+
+ALTER TABLE build_failures
+  MODIFY COLUMN status ENUM('new','analyzing','proposed','applied','skipped','failed') NOT NULL DEFAULT 'new';
+
+CREATE INDEX IF NOT EXISTS idx_bf_status_lease ON build_failures (status, lease_expires_at);
@@ -0,0 +1,10 @@
+-- Incidents: failures of the same (repo, pr_number, commit_sha) are grouped
+-- under the oldest live row (the leader). Members point at it via incident_id
+-- and sit in 'coalesced'; only the leader runs the graph, over all members' logs.
+ALTER TABLE build_failures ADD COLUMN IF NOT EXISTS incident_id BIGINT NULL AFTER status;
+
+ALTER TABLE build_failures
+  MODIFY COLUMN status ENUM('new','analyzing','proposed','applied','skipped','failed','coalesced') NOT NULL DEFAULT 'new';
+
+CREATE INDEX IF NOT EXISTS idx_bf_incident_key ON build_failures (repo_owner, repo_name, commit_sha);
+CREATE INDEX IF NOT EXISTS idx_bf_incident ON build_failures (incident_id);
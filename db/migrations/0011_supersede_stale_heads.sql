@@ -0,0 +1,21 @@
+-- Supersede work for stale PR heads. On pull_request.synchronize, pending
+-- build_failures and outbound_actions for older head SHAs of the PR are
+-- marked 'superseded'; outbox rows now carry repo/PR so they can be found.
+ALTER TABLE outbound_actions ADD COLUMN IF NOT EXISTS repo_owner VARCHAR(200) NULL AFTER installation_id;
+ALTER TABLE outbound_actions ADD COLUMN IF NOT EXISTS repo_name VARCHAR(200) NULL AFTER repo_owner;
+ALTER TABLE outbound_actions ADD COLUMN IF NOT EXISTS pr_number INT NULL AFTER repo_name;
+
+ALTER TABLE outbound_actions
+  MODIFY COLUMN status ENUM('staged','dispatching','dispatched','error','dead','discarded','superseded') NOT NULL DEFAULT 'staged';
+
+ALTER TABLE build_failures
+  MODIFY COLUMN status ENUM('new','analyzing','proposed','applied','skipped','failed','coalesced','superseded') NOT NULL DEFAULT 'new';
+
+-- Backfill still-pending rows from their payload
+UPDATE outbound_actions
+SET repo_owner = JSON_UNQUOTE(JSON_EXTRACT(payload_json, '$.owner')),
+    repo_name  = JSON_UNQUOTE(JSON_EXTRACT(payload_json, '$.repo')),
+    pr_number  = NULLIF(JSON_UNQUOTE(JSON_EXTRACT(payload_json, '$.pull_number')), 'null')
+WHERE repo_owner IS NULL AND status IN ('staged','error');
+
+CREATE INDEX IF NOT EXISTS ix_repo_pr ON outbound_actions (repo_owner, repo_name, pr_number);
@@ -0,0 +1,10 @@
+-- ChatOps: `/resolvci ignore <signature>` mutes an error signature per repo.
+-- graph-run skips failures whose v1/v2 signature starts with a muted one.
+CREATE TABLE IF NOT EXISTS ignored_signatures (
+  repo_owner VARCHAR(200) NOT NULL,
+  repo_name  VARCHAR(200) NOT NULL,
+  signature  VARCHAR(40)  NOT NULL,
+  created_by VARCHAR(200) NULL,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (repo_owner, repo_name, signature)
+);
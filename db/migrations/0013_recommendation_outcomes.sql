@@ -0,0 +1,15 @@
+-- Review outcomes. The dispatcher records what it posted (github_ref_json)
+-- per failure; /api/collect-feedback turns later signals (suggestion applied
+-- in a commit, thread resolved, follow-up CI green, 👍/👎) into an outcome on
+-- fix_recommendations, which Analysis uses to rank prior fixes.
+ALTER TABLE outbound_actions ADD COLUMN IF NOT EXISTS failure_id BIGINT NULL AFTER installation_id;
+ALTER TABLE outbound_actions ADD COLUMN IF NOT EXISTS github_ref_json TEXT NULL AFTER dispatched_at;
+CREATE INDEX IF NOT EXISTS ix_failure_id ON outbound_actions (failure_id);
+
+ALTER TABLE fix_recommendations
+  ADD COLUMN IF NOT EXISTS outcome ENUM('pending','accepted','rejected') NOT NULL DEFAULT 'pending';
+ALTER TABLE fix_recommendations ADD COLUMN IF NOT EXISTS outcome_score INT NOT NULL DEFAULT 0;
+ALTER TABLE fix_recommendations ADD COLUMN IF NOT EXISTS outcome_signals_json TEXT NULL;
+ALTER TABLE fix_recommendations ADD COLUMN IF NOT EXISTS outcome_checked_at DATETIME NULL;
+ALTER TABLE fix_recommendations ADD COLUMN IF NOT EXISTS outcome_at DATETIME NULL;
+CREATE INDEX IF NOT EXISTS idx_fix_outcome_time ON fix_recommendations (outcome, created_at);
@@ -0,0 +1,18 @@
+-- Cross-repository knowledge sharing. Each installation opts in to a scope
+-- (repo | owner | global); repo visibility is recorded so private repos'
+-- fixes never surface in reviews on other (public) repos.
+CREATE TABLE IF NOT EXISTS installation_settings (
+  installation_id BIGINT NOT NULL PRIMARY KEY,
+  knowledge_scope ENUM('repo','owner','global') NOT NULL DEFAULT 'repo',
+  updated_at      DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+);
+
+ALTER TABLE build_failures ADD COLUMN IF NOT EXISTS repo_private TINYINT(1) NULL AFTER repo_name;
+ALTER TABLE fix_recommendations ADD COLUMN IF NOT EXISTS repo_private TINYINT(1) NULL AFTER repo_name;
+
+UPDATE fix_recommendations r
+JOIN build_failures bf ON bf.failure_id = r.failure_id
+SET r.repo_private = bf.repo_private
+WHERE r.repo_private IS NULL AND bf.repo_private IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_fix_owner ON fix_recommendations (repo_owner);
@@ -0,0 +1,3 @@
+-- Failing test cases parsed from a run's JUnit / TRX / TAP report artifacts
+-- (graph-run fills this next to log_steps_json; NULL = no report found).
+ALTER TABLE build_failures ADD COLUMN IF NOT EXISTS test_reports_json LONGTEXT NULL AFTER log_steps_json;
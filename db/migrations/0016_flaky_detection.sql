@@ -0,0 +1,7 @@
+-- Flaky-test detection. A failure whose run later passed on re-run of the
+-- same commit (workflow_run success with a higher run_attempt) is marked
+-- rerun_passed; graph-run correlates that across the signature's history and
+-- records a 'flaky' triage instead of proposing a code change.
+ALTER TABLE build_failures ADD COLUMN IF NOT EXISTS rerun_passed TINYINT(1) NOT NULL DEFAULT 0 AFTER run_attempt;
+ALTER TABLE build_failures ADD COLUMN IF NOT EXISTS rerun_passed_at DATETIME NULL AFTER rerun_passed;
+ALTER TABLE build_failures ADD COLUMN IF NOT EXISTS triage VARCHAR(32) NULL AFTER status;
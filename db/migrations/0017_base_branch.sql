@@ -0,0 +1,6 @@
+-- Base branch of the failing PR (pull_requests[].base.ref, else the repo's
+-- default branch). Analysis compares a PR failure's signature with failures
+-- of push builds on that branch to spot a red base ("pre-existing") instead of
+-- blaming the PR.
+ALTER TABLE build_failures ADD COLUMN IF NOT EXISTS base_branch VARCHAR(255) NULL AFTER head_branch;
+CREATE INDEX IF NOT EXISTS idx_bf_repo_branch_time ON build_failures (repo_owner, repo_name, head_branch, failure_timestamp DESC);
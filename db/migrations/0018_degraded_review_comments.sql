@@ -0,0 +1,5 @@
+-- Partial review failures. When GitHub rejects a review (422) because of some
+-- inline comments, the dispatcher finds the offending ones, folds them into
+-- the body's Diagnostics and re-posts in the same dispatch. What it demoted
+-- (path, lines, GitHub's error) is kept here for later inspection.
+ALTER TABLE outbound_actions ADD COLUMN IF NOT EXISTS degraded_json TEXT NULL AFTER github_ref_json;
@@ -0,0 +1,5 @@
+-- No-PR issues are keyed by repo + branch + error signature. While the issue
+-- a key opened is still open, later commits with the same failure update it
+-- and comment on it instead of opening a new issue per commit.
+ALTER TABLE outbound_actions ADD COLUMN IF NOT EXISTS dedupe_key VARCHAR(64) NULL AFTER pr_number;
+CREATE INDEX IF NOT EXISTS idx_outbound_dedupe ON outbound_actions (repo_owner, repo_name, dedupe_key);
@@ -0,0 +1,49 @@
+import fs from "node:fs";
+import path from "node:path";
+import { isDeepStrictEqual } from "node:util";
+import { parseLog } from "../src/lib/log-parsers";
+
+// Replays every fixture log through parseLog and compares with its <tool>.expected.json
+function main() {
+  const fixturesDir = path.resolve(process.cwd(), "src", "lib", "log-parsers", "fixtures");
+  const logs = fs
+    .readdirSync(fixturesDir)
+    .filter((f) => f.endsWith(".log"))
+    .sort();
+
+  if (logs.length === 0) {
+    console.error(`No .log fixtures found in ${fixturesDir}`);
+    process.exit(1);
+  }
+
+  let failed = 0;
+  for (const file of logs) {
+    const expectedPath = path.join(fixturesDir, file.replace(/\.log$/, ".expected.json"));
+    if (!fs.existsSync(expectedPath)) {
+      console.log(`FAIL ${file}: missing ${path.basename(expectedPath)}`);
+      failed++;
+      continue;
+    }
+
+    const parsed = parseLog(fs.readFileSync(path.join(fixturesDir, file), "utf8"));
+    const actual = {
+      parsers: parsed.parsers,
+      findings: parsed.findings.map(({ parser, error_class, file, line, test }) => ({ parser, error_class, file, line, test })),
+    };
+    const expected = JSON.parse(fs.readFileSync(expectedPath, "utf8"));
+
+    if (isDeepStrictEqual(actual, expected)) {
+      console.log(`ok   ${file}`);
+    } else {
+      console.log(`FAIL ${file}`);
+      console.log(`  expected: ${JSON.stringify(expected)}`);
+      console.log(`  actual:   ${JSON.stringify(actual)}`);
+      failed++;
+    }
+  }
+
+  console.log(`${logs.length - failed}/${logs.length} fixtures passed.`);
+  if (failed) process.exit(1);
+}
+
+main();
@@ -1,13 +1,34 @@
 import type { Octokit } from "octokit";
-import { getOctokitForInstallation, getOctokitForRepo } from "@/lib/github";
-import { sequelize, OutboundAction } from "@/lib/tidb";
+import {
+  getOctokitForInstallation,
+  getOctokitForRepo,
+  isRetryableGitHubError,
+  retryAfterMs,
+} from "@/lib/github";
+import { Op } from "sequelize";
+import { sequelize, OutboundAction, type OutboundActionType, type ReviewChannel } from "@/lib/tidb";
 import type { SolutionsReturn, SolutionsOutput, Change } from "@/agents/solutions";
 import { sha1 } from "@/lib/text";
-import { normalizeSolution } from "@/lib/solution-utils";
+import { normalizeSolution, isOffDiffChange } from "@/lib/solution-utils";
+import { signatureFooter } from "@/agents/chatops";
+import { commentableLines, hunkContaining, snapToCommentable, type CommentableLines } from "@/lib/diff";
 
 const DEBUG = process.env.DEBUG_ACTUATOR === "1";
 const MAX_REVIEW_COMMENTS = Number(process.env.ACTUATOR_MAX_COMMENTS ?? "12");
 const BODY_MAX_CHARS = Number(process.env.ACTUATOR_BODY_MAX ?? "18000"); // keep margin under GH hard limit
+export const CHECK_RUN_NAME = "ResolvCI";
+// Outbox retry scheduling: exponential backoff, then dead-letter
+const MAX_DISPATCH_ATTEMPTS = Number(process.env.OUTBOX_MAX_ATTEMPTS ?? "5");
+const RETRY_BASE_MS = Number(process.env.OUTBOX_RETRY_BASE_MS ?? "30000");
+const RETRY_MAX_MS = Number(process.env.OUTBOX_RETRY_MAX_MS ?? "3600000");
+// How long a dispatcher owns a claimed row before others may reclaim it
+const DISPATCH_LEASE_MS = Number(process.env.OUTBOX_LEASE_MS ?? "120000");
+const ANNOTATIONS_PER_REQUEST = 50;  // GitHub limit per create/update call
+const ANNOTATION_MAX_CHARS = 4000;
+// Off-diff comments this close to a hunk are moved onto it instead of the body
+const SNAP_LINES = Number(process.env.ACTUATOR_SNAP_LINES ?? "5");
+// Rejected reviews with more inline comments than this demote them all instead of probing each
+const MAX_PROBES = Number(process.env.ACTUATOR_MAX_PROBES ?? "6");
 
 /* ============================== Helpers ============================== */
 
@@ -15,23 +36,17 @@ function clampLen(s: string, max: number) {
   return s.length > max ? s.slice(0, max) + "\n\n… _truncated_" : s;
 }
 
-type DraftComment = { path: string; line: number; body: string; side?: "RIGHT" | "LEFT" };
-
-function parseUnifiedDiffMaxRightLine(patch: string): number | null {
-  // Very light-weight: scan hunks like @@ -a,b +c,d @@ and track max right line
-  // This doesn’t validate every line, but prevents obviously out-of-range anchors.
-  let max = 0;
-  const re = /@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/g;
-  let m: RegExpExecArray | null;
-  while ((m = re.exec(patch))) {
-    const start = Number(m[1] || 0);
-    const len = Number(m[2] || 1);
-    const end = start + Math.max(0, len) - 1;
-    if (end > max) max = end;
-  }
-  return max || null;
-}
+// start_line..line: a multi-line comment (a suggestion replaces exactly that range)
+type DraftComment = { path: string; line: number; start_line?: number; body: string; side?: "RIGHT" | "LEFT" };
+
+const isSuggestion = (body: string) => /^```suggestion\b/m.test(body);
 
+/**
+ * Check drafts against each file's commentable lines (diff.ts). A suggestion
+ * must sit exactly on its range (snapping would rewrite the wrong lines);
+ * other comments off the diff snap to the nearest commentable line of a hunk
+ * within ACTUATOR_SNAP_LINES. The rest become diagnostics in the body.
+ */
 async function validateReviewComments(
   octo: Octokit,
   owner: string,
@@ -42,29 +57,38 @@ async function validateReviewComments(
   if (!comments?.length) return { valid: [], diagnostics: [] };
 
   const { data: files } = await octo.rest.pulls.listFiles({ owner, repo, pull_number, per_page: 300 });
-  const byPath = new Map<string, { patch: string | null }>();
-  for (const f of files) byPath.set(f.filename, { patch: f.patch ?? null });
+  const byPath = new Map<string, CommentableLines | null>();
+  for (const f of files) byPath.set(f.filename, f.patch ? commentableLines(f.patch) : null);
 
   const valid: DraftComment[] = [];
   const diagnostics: DraftComment[] = [];
 
   for (const c of comments) {
-    const meta = byPath.get(c.path);
-    if (!meta) { diagnostics.push(c); continue; }           // if path not in diff -> diag
-    if (!meta.patch) { diagnostics.push(c); continue; }     // if no patch (large/binary) -> diag
+    const lines = byPath.get(c.path);
+    if (!lines) { diagnostics.push(c); continue; }          // path not in diff, or no patch (large/binary) -> diag
 
-    const maxRight = parseUnifiedDiffMaxRightLine(meta.patch);
-    if (!maxRight || c.line < 1 || c.line > maxRight) {
-      diagnostics.push(c);                                  // out of range → diag
+    const side = c.side ?? "RIGHT";
+    const start = c.start_line != null && c.start_line < c.line ? c.start_line : c.line;
+    if (hunkContaining(lines, side, start, c.line) >= 0) {   // whole range inside one hunk
+      valid.push({ ...c, side });
       continue;
     }
-    // Looks anchorable; ensure RIGHT side
-    valid.push({ ...c, side: c.side ?? "RIGHT" });
+    if (isSuggestion(c.body)) { diagnostics.push(c); continue; }
+
+    // Near-miss: anchor a plain comment on the closest line the diff has
+    const snapped = snapToCommentable(lines, side, c.line, SNAP_LINES);
+    if (snapped == null) { diagnostics.push(c); continue; } // too far from any hunk → diag
+    if (DEBUG) console.log(`[Actuator] snapped ${c.path}:${start}-${c.line} → ${snapped}`);
+    valid.push({
+      path: c.path,
+      line: snapped,
+      side,
+      body: `${c.body}\n\n_Anchored on line ${snapped}, the nearest line in the diff to line ${c.line}._`,
+    });
   }
   return { valid, diagnostics };
 }
 
-
 function makePermalink(
   owner: string,
   repo: string,
@@ -80,15 +104,101 @@ function makePermalink(
 }
 
 
+/** Permalinked bullets for items that can't be (or aren't) posted inline */
+function renderCommentsMarkdown(owner: string, repo: string, sha: string, comments: DraftComment[]) {
+  return comments.map(d => {
+    const start = d.start_line ?? d.line;
+    const link = makePermalink(owner, repo, sha, d.path, start, d.line);
+    const where = start < d.line ? `${d.path}:${start}-${d.line}` : `${d.path}:${d.line}`;
+    return `- 🔎 **Source of error** at [\`${where}\`](${link})\n${d.body}`;
+  }).join("\n");
+}
+
+type CheckAnnotation = {
+  path: string;
+  start_line: number;
+  end_line: number;
+  annotation_level: "notice" | "warning" | "failure";
+  title: string;
+  message: string;
+  raw_details?: string;
+};
+
+/** One check-run annotation per Change (path, line range, level, message) */
+function toAnnotation(chg: Change): CheckAnnotation {
+  const start = Math.max(1, chg.span?.start_line ?? chg.anchor?.line ?? 1);
+  const span = chg.span
+    ? chg.span.end_line - chg.span.start_line + 1
+    : chg.intent === "replace" && chg.match?.original
+      ? chg.match.original.replace(/\r\n/g, "\n").trim().split("\n").length
+      : 1;
+  const isFix = chg.type !== "diagnosis" && !chg.validation?.isNoop;
+  const message = [
+    chg.explain ?? (isFix ? "Suggested fix for this location." : "Likely source of the failure."),
+    "",
+    "Proposed:",
+    chg.hunk.after,
+  ].join("\n");
+
+  return {
+    path: chg.path,
+    start_line: start,
+    end_line: start + span - 1,
+    annotation_level: isFix ? "warning" : "notice",
+    title: isFix ? "💡 Suggested fix" : "🔎 Source of error",
+    message: clampLen(message, ANNOTATION_MAX_CHARS),
+    raw_details: chg.match?.original ? clampLen(chg.match.original, ANNOTATION_MAX_CHARS) : undefined,
+  };
+}
+
+function issueTitle(branch: string | null, sha: string, oneLiner: string) {
+  const where = branch ? `\`${branch}\`` : "build";
+  return `ResolvCI: ${where} failing at ${sha.slice(0, 7)} — ${oneLiner}`.slice(0, 250);
+}
+
 /* ============================== Types ============================== */
 
+/**
+ * Where a diagnosis is delivered. Pull requests get an inline review, or a
+ * "ResolvCI" check run with annotations when the repo opted into checks
+ * (repo_settings.review_channel). Failures without a PR (push/schedule builds
+ * on main, release branches) get a commit comment, an issue or a check run,
+ * chosen by ACTUATOR_NO_PR_CHANNEL.
+ */
+export type ActuatorTarget =
+  | { kind: "pull_request"; pull_number: number }
+  | { kind: "check_run"; pull_number?: number | null }
+  | { kind: "commit_comment" }
+  | { kind: "issue" };
+
+const NO_PR_CHANNEL: "commit_comment" | "issue" | "check_run" =
+  process.env.ACTUATOR_NO_PR_CHANNEL === "issue" ? "issue"
+  : process.env.ACTUATOR_NO_PR_CHANNEL === "check_run" ? "check_run"
+  : "commit_comment";
+
+export function actuatorTargetFor(
+  pr_number: number | null | undefined,
+  channel: ReviewChannel = "pr_review"
+): ActuatorTarget {
+  if (pr_number != null) {
+    return channel === "check_run"
+      ? { kind: "check_run", pull_number: pr_number }
+      : { kind: "pull_request", pull_number: pr_number };
+  }
+  return { kind: NO_PR_CHANNEL };
+}
+
 type StageFromSolutionParams = {
   owner: string;
   repo: string;
-  pull_number: number;
+  pull_number?: number | null;
+  target?: ActuatorTarget;             // defaults to actuatorTargetFor(pull_number)
   head_sha: string;
+  head_branch?: string | null;
   solution: SolutionsReturn | SolutionsOutput; // ← Option A: accept both
   installation_id?: number | null;
+  error_signature?: string | null;     // shown in the summary for `/resolvci ignore`
+  failure_id?: number | null;          // links what gets posted back to the recommendation
 };
 
 export type OutboundRow = {
@@ -100,6 +210,22 @@ export type OutboundRow = {
   installation_id: number | null;
   status?: string;
   attempt_count?: number;
+  next_attempt_at?: Date | string | null;
+  claimed_by?: string | null;
+  lease_expires_at?: Date | string | null;
+  failure_id?: number | null;
+  github_ref_json?: string | null;
+  degraded_json?: string | null;
+};
+
+/** What a dispatched action created on GitHub (outbound_actions.github_ref_json) */
+export type GitHubRef = {
+  review_id?: number;
+  comment_ids?: number[];     // inline review comments
+  check_run_id?: number;
+  annotation_batches?: number; // check-run annotation batches already sent
+  comment_id?: number;        // commit comment, or the "still failing" comment on an open issue
+  issue_number?: number;
 };
 
 type GitHubComment = {
@@ -112,17 +238,108 @@ type GitHubComment = {
   start_side?: string;
 }
 
+/** An inline comment GitHub rejected, posted as a diagnostic instead (outbound_actions.degraded_json) */
+export type DegradedComment = {
+  path: string;
+  line: number;
+  start_line?: number;
+  error: string;
+};
+
 /* ============================ Staging API ============================ */
 
-/** Stage a PR review (exactly-once) from a Solutions output */
+/**
+ * Stage a PR review — or, without a PR, a commit comment / issue — (exactly-once) from a Solutions output.
+ * Reviews with changes to files outside the PR also stage a check run annotating those.
+ */
 export async function stageReviewOutboxFromSolution(p: StageFromSolutionParams) {
-  const { owner, repo, pull_number, head_sha, installation_id } = p;
+  const { owner, repo, head_sha, installation_id } = p;
+  const failure_id = p.failure_id ?? null;
   const solution = normalizeSolution(p.solution);
+  const target = p.target ?? actuatorTargetFor(p.pull_number);
+  const footer = signatureFooter(p.error_signature);
+  const summaryMarkdown = footer ? `${solution.summaryMarkdown}\n\n${footer}` : solution.summaryMarkdown;
 
   const rawComments = (solution as SolutionsReturn).reviewComments
-  const comments = rawComments.slice(0, MAX_REVIEW_COMMENTS).map((c)=>{return c});  // noop
-  
-  const body = clampLen(solution.summaryMarkdown , BODY_MAX_CHARS);
+  let comments = rawComments.slice(0, MAX_REVIEW_COMMENTS).map((c)=>{return c});  // noop
+
+  if (target.kind === "check_run") {
+    // Every change becomes an annotation — no need to be inside the PR diff
+    const payload = {
+      type: "check_run" as const,
+      owner,
+      repo,
+      pull_number: target.pull_number ?? null,
+      head_sha,
+      name: CHECK_RUN_NAME,
+      title: `${CHECK_RUN_NAME} — ${solution.summary.one_liner}`.slice(0, 250),
+      summary: clampLen(summaryMarkdown, BODY_MAX_CHARS),
+      annotations: solution.changes.map(toAnnotation),
+    };
+    return stageOutboundAction("check_run", payload, sha1(JSON.stringify(payload)), head_sha, installation_id, failure_id);
+  }
+
+  if (target.kind !== "pull_request") {
+    // No diff to anchor on: inline items become permalinked sections of the body
+    const items = renderCommentsMarkdown(owner, repo, head_sha, comments);
+    const body = clampLen(
+      items ? `${summaryMarkdown}\n\n---\n**Findings:**\n${items}` : summaryMarkdown,
+      BODY_MAX_CHARS
+    );
+    if (target.kind === "issue") {
+      // One open issue per repo + branch + failure, not one per red commit
+      const issue_key = sha1(JSON.stringify({
+        owner, repo, branch: p.head_branch ?? null, sig: p.error_signature ?? solution.summary.one_liner,
+      }));
+      const payload = {
+        type: "issue" as const,
+        owner,
+        repo,
+        head_sha,
+        head_branch: p.head_branch ?? null,
+        issue_key,
+        title: issueTitle(p.head_branch ?? null, head_sha, solution.summary.one_liner),
+        body,
+      };
+      const action_hash = sha1(JSON.stringify({ t: payload.type, issue_key, head_sha }));
+      return stageOutboundAction("issue", payload, action_hash, head_sha, installation_id, failure_id, issue_key);
+    }
+
+    const payload = { type: "commit_comment" as const, owner, repo, head_sha, body };
+    return stageOutboundAction(payload.type, payload, sha1(JSON.stringify(payload)), head_sha, installation_id, failure_id);
+  }
+
+  const pull_number = target.pull_number;
+
+  // Changes to files outside the PR can't be anchored inline: annotate them on a
+  // check run rather than folding them into the review body
+  const offDiff = solution.changes.filter(isOffDiffChange);
+  let annotated: Awaited<ReturnType<typeof stageOutboundAction>> | null = null;
+  if (offDiff.length) {
+    const offPaths = new Set(offDiff.map(c => c.path));
+    comments = rawComments.filter(c => !offPaths.has(c.path)).slice(0, MAX_REVIEW_COMMENTS);
+    const checkPayload = {
+      type: "check_run" as const,
+      owner,
+      repo,
+      pull_number,
+      head_sha,
+      name: CHECK_RUN_NAME,
+      title: `${CHECK_RUN_NAME} — ${offDiff.length} suggestion(s) outside the PR diff`.slice(0, 250),
+      summary: clampLen(summaryMarkdown, BODY_MAX_CHARS),
+      annotations: offDiff.map(toAnnotation),
+    };
+    annotated = await stageOutboundAction(
+      "check_run", checkPayload, sha1(JSON.stringify(checkPayload)), head_sha, installation_id, failure_id
+    );
+  }
+
+  const body = clampLen(
+    offDiff.length
+      ? `${summaryMarkdown}\n\n_${offDiff.length} suggestion(s) for files outside this PR are annotated on the **${CHECK_RUN_NAME}** check._`
+      : summaryMarkdown,
+    BODY_MAX_CHARS
+  );
 
   const payload = {
     type: "pr_review" as const,
@@ -161,13 +378,32 @@ export async function stageReviewOutboxFromSolution(p: StageFromSolutionParams)
     });
   }
 
+  const staged = await stageOutboundAction("pr_review", payload, action_hash, head_sha, installation_id, failure_id);
+  return annotated && !annotated.ok ? annotated : staged;
+}
+
+/** Insert a staged row into the outbox; duplicate action_hash → already staged */
+async function stageOutboundAction(
+  action_type: OutboundActionType,
+  payload: { type: OutboundActionType; owner: string; repo: string; pull_number?: number | null },
+  action_hash: string,
+  head_sha: string,
+  installation_id?: number | null,
+  failure_id?: number | null,
+  dedupe_key?: string | null
+) {
   try {
     if (OutboundAction) {
       await OutboundAction.create({
         action_hash,
-        action_type: "pr_review",
+        action_type,
         head_sha,
         installation_id: installation_id ?? null,
+        failure_id: failure_id ?? null,
+        repo_owner: payload.owner,
+        repo_name: payload.repo,
+        pr_number: payload.pull_number ?? null,
+        dedupe_key: dedupe_key ?? null,
         payload_json: JSON.stringify(payload),
         status: "staged",
         attempt_count: 0,
@@ -175,22 +411,30 @@ export async function stageReviewOutboxFromSolution(p: StageFromSolutionParams)
     } else {
       const q = `
         INSERT INTO outbound_actions
-          (action_hash, action_type, head_sha, installation_id, payload_json, status, attempt_count)
+          (action_hash, action_type, head_sha, installation_id, failure_id, repo_owner, repo_name, pr_number,
+           dedupe_key, payload_json, status, attempt_count)
         VALUES
-          (:action_hash, 'pr_review', :head_sha, :installation_id, :payload_json, 'staged', 0)
+          (:action_hash, :action_type, :head_sha, :installation_id, :failure_id, :repo_owner, :repo_name, :pr_number,
+           :dedupe_key, :payload_json, 'staged', 0)
         ON DUPLICATE KEY UPDATE action_hash = action_hash
       `;
       await sequelize.query(q, {
         replacements: {
           action_hash,
+          action_type,
           head_sha,
           installation_id: installation_id ?? null,
+          failure_id: failure_id ?? null,
+          repo_owner: payload.owner,
+          repo_name: payload.repo,
+          pr_number: payload.pull_number ?? null,
+          dedupe_key: dedupe_key ?? null,
           payload_json: JSON.stringify(payload),
         },
       });
     }
 
-    if (DEBUG) console.log("[Actuator] staged OK:", action_hash);
+    if (DEBUG) console.log("[Actuator] staged OK:", action_type, action_hash);
     return { ok: true as const, action_hash };
   } catch (e: unknown) {
     // Unique → already staged → treat as success
@@ -213,7 +457,7 @@ export async function stageReviewOutbox(p: {
   pull_number: number;
   head_sha: string;
   reviewBody: string;
-  comments: Array<{ path: string; line: number; body: string }>;
+  comments: Array<{ path: string; line: number; start_line?: number; body: string }>;
   installation_id?: number | null;
 }) {
   const solutionLike: SolutionsReturn = {
@@ -242,6 +486,98 @@ export async function stageReviewOutbox(p: {
 
 /* =========================== Dispatching API ========================== */
 
+/** Rows a dispatcher may pick up: staged, errored with elapsed backoff, or leased by a dead dispatcher */
+function dueWhere(now: Date) {
+  return {
+    [Op.or]: [
+      { status: "staged" },
+      {
+        status: "error",
+        [Op.or]: [{ next_attempt_at: null }, { next_attempt_at: { [Op.lte]: now } }],
+      },
+      { status: "dispatching", lease_expires_at: { [Op.lte]: now } },
+    ],
+  };
+}
+
+/** Status transitions after a claim only apply while we still hold the lease */
+function ownedBy(a: OutboundRow) {
+  return a.claimed_by ? { id: a.id, claimed_by: a.claimed_by } : { id: a.id };
+}
+
+/**
+ * Claim up to `limit` due actions for `workerId`.
+ * Each row is taken with a conditional UPDATE (status → 'dispatching' +
+ * lease) that only succeeds if the row is still due, so two overlapping
+ * dispatchers can never both own — and post — the same action.
+ * Reclaiming an expired lease counts as an attempt: an action that keeps
+ * crashing its dispatcher ends up dead-lettered like any other failure.
+ */
+export async function claimOutboundActions(workerId: string, limit: number): Promise<OutboundRow[]> {
+  const candidates = await OutboundAction.findAll({
+    attributes: ["id", "status", "attempt_count"],
+    where: dueWhere(new Date()),
+    order: [["id", "ASC"]],
+    limit: limit * 2,   // some will be lost to concurrent dispatchers
+  });
+
+  const claimed: OutboundRow[] = [];
+  for (const c of candidates) {
+    if (claimed.length >= limit) break;
+    const { id, status, attempt_count = 0 } = c.toJSON() as OutboundRow;
+    const now = new Date();
+    const reclaim = status === "dispatching";
+    // the attempt_count match makes the increment as conditional as the claim
+    const where = reclaim
+      ? { id, status, attempt_count, lease_expires_at: { [Op.lte]: now } }
+      : { id, ...dueWhere(now) };
+
+    if (reclaim && attempt_count + 1 >= MAX_DISPATCH_ATTEMPTS) {
+      await OutboundAction.update(
+        {
+          status: "dead",
+          attempt_count: attempt_count + 1,
+          next_attempt_at: null,
+          last_error: `dispatch lease expired ${attempt_count + 1} time(s) without finishing`,
+          claimed_by: null,
+          lease_expires_at: null,
+        },
+        { where }
+      );
+      console.warn(`[Actuator] action ${id} dead-lettered after an expired lease`);
+      continue;
+    }
+
+    const [won] = await OutboundAction.update(
+      {
+        status: "dispatching",
+        claimed_by: workerId,
+        lease_expires_at: new Date(now.getTime() + DISPATCH_LEASE_MS),
+        ...(reclaim ? { attempt_count: attempt_count + 1 } : {}),
+      },
+      { where }
+    );
+    if (!won) continue;
+
+    const row = await OutboundAction.findByPk(id);
+    if (row) claimed.push(row.toJSON() as OutboundRow);
+  }
+  return claimed;
+}
+
+/**
+ * Push our lease forward during a long dispatch (annotation batches, review
+ * probes). Throws when the lease was lost: another dispatcher may own the row
+ * now, and carrying on could post twice.
+ */
+async function renewLease(a: OutboundRow, extra: { github_ref_json?: string } = {}) {
+  const [owned] = await OutboundAction.update(
+    { ...extra, lease_expires_at: new Date(Date.now() + DISPATCH_LEASE_MS) },
+    { where: ownedBy(a) }
+  );
+  if (!owned) throw new Error(`dispatch lease lost for action ${a.id}`);
+}
+
 async function getOctoForAction(a: OutboundRow): Promise<Octokit> {
   try {
     if (a.installation_id != null) {
@@ -254,74 +590,357 @@ async function getOctoForAction(a: OutboundRow): Promise<Octokit> {
   return await getOctokitForRepo(payload.owner, payload.repo);
 }
 
-/** Post a single staged review; idempotent & safe to retry */
-export async function dispatchOneOutboundAction(a: OutboundRow) {
-  const payload = JSON.parse(a.payload_json);
-  if (payload.type !== "pr_review") {
-    if (DEBUG) console.log("[Actuator] skip non-pr_review action:", a.id);
-    return { ok: true, skipped: true };
-  }
-
-  const octo = await getOctoForAction(a);
-  const { valid, diagnostics } = await validateReviewComments(
-    octo, payload.owner, payload.repo, payload.pull_number, payload.comments || []
-  );
+function toReviewComment(c: GitHubComment) {
+  return {
+    path: c.path,
+    line: c.line,
+    side: c.side || "RIGHT",
+    ...(c.start_line != null && c.line != null && c.start_line < c.line
+      ? { start_line: c.start_line, start_side: c.start_side || c.side || "RIGHT" }
+      : {}),
+    body: c.body,
+  };
+}
 
-  // Fold un-anchorable items into the top body as diagnostics
-  let body = String(payload.body || "");
-
-  if (diagnostics.length) {
-    console.log("[Actuator] diagnostics:", diagnostics[0], valid)
-    const bullets = diagnostics.map(d => {
-      const link = makePermalink(payload.owner, payload.repo, payload.head_sha, d.path, d.line);
-      return `- 🔎 **Source of error** at [\`${d.path}:${d.line}\`](${link})\n${d.body}`;
-    }).join("\n");  
-    body += `\n\n---\n**Diagnostics:**\n${bullets}`;
+/* eslint-disable @typescript-eslint/no-explicit-any */
+const isUnprocessable = (e: unknown) => (e as any)?.status === 422;
+
+/** GitHub's 422 details: `errors[]` (strings or {field, code, message}), else the message */
+function reviewErrorDetails(e: unknown): string[] {
+  const data = (e as any)?.response?.data;
+  const errors: unknown[] = Array.isArray(data?.errors) ? data.errors : [];
+  const details = errors
+    .map((x: any) => (typeof x === "string" ? x : [x?.field, x?.message ?? x?.code].filter(Boolean).join(": ")))
+    .filter(Boolean);
+  return details.length ? details : [String(data?.message ?? (e as Error)?.message ?? e)];
+}
+/* eslint-enable @typescript-eslint/no-explicit-any */
+
+/** Comments the error names by index (`comments[2]…`), or null when it names none */
+function rejectedByIndex(details: string[], count: number): Map<number, string> | null {
+  const bad = new Map<number, string>();
+  for (const d of details) {
+    for (const m of d.matchAll(/comments\[(\d+)\]/g)) {
+      const i = Number(m[1]);
+      if (i < count) bad.set(i, d);
+    }
   }
+  return bad.size ? bad : null;
+}
 
+/**
+ * Delete a pending review of ours. A leftover pending review blocks every
+ * later review on the PR, so a failure here fails the dispatch (and the
+ * retry cleans up first, see clearPendingReviews).
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function deletePendingReview(octo: Octokit, payload: any, review_id: number) {
   try {
-    if (DEBUG) {
-      console.log("[Actuator] posting review:", {
+    await octo.rest.pulls.deletePendingReview({
+      owner: payload.owner, repo: payload.repo, pull_number: payload.pull_number, review_id,
+    });
+  } catch (e) {
+    throw new Error(`could not delete pending probe review ${review_id}: ${String((e as Error)?.message ?? e)}`);
+  }
+}
+
+/** Pending reviews are only visible to their author: any listed are ours, left by an earlier probe */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function clearPendingReviews(octo: Octokit, payload: any) {
+  const { data: reviews } = await octo.rest.pulls.listReviews({
+    owner: payload.owner, repo: payload.repo, pull_number: payload.pull_number, per_page: 100,
+  });
+  for (const r of reviews.filter((x) => x.state === "PENDING")) await deletePendingReview(octo, payload, r.id);
+}
+
+/**
+ * 422s rarely say which comment is bad: try each one alone in a pending
+ * (never submitted) review and delete it right away. At most MAX_PROBES
+ * comments are probed; null when there are more, or probing isn't possible.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function probeRejectedComments(octo: Octokit, a: OutboundRow, payload: any, comments: GitHubComment[]) {
+  await clearPendingReviews(octo, payload);    // even unprobed, a leftover would fail the re-post
+  if (comments.length > MAX_PROBES) return null;
+
+  const bad = new Map<number, string>();
+  for (const [i, c] of comments.entries()) {
+    await renewLease(a);
+    let probe: number;
+    try {
+      const { data } = await octo.rest.pulls.createReview({
         owner: payload.owner,
         repo: payload.repo,
         pull_number: payload.pull_number,
-        comments: (payload.comments || []).length,
-        body_len: (payload.body || "").length,
-        body
+        commit_id: payload.head_sha,
+        comments: [toReviewComment(c)],     // no event → PENDING
       });
+      probe = data.id;
+    } catch (e) {
+      if (!isUnprocessable(e)) throw e;
+      const detail = reviewErrorDetails(e).join("; ");
+      if (/one pending review/i.test(detail)) return null;
+      bad.set(i, detail);
+      continue;
     }
+    await deletePendingReview(octo, payload, probe);
+  }
+  return bad;
+}
 
-    //console.log("[Actuator] posting review:", payload.comments[0].body)
-    await octo.rest.pulls.createReview({
+/**
+ * Post a PR review; un-anchorable comments are folded into the body as diagnostics.
+ * If GitHub still rejects some inline comments (422), those are found, demoted
+ * to diagnostics and the review is posted again right away.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function postPrReview(octo: Octokit, a: OutboundRow, payload: any): Promise<GitHubRef & { degraded: DegradedComment[] }> {
+  const { valid, diagnostics } = await validateReviewComments(
+    octo, payload.owner, payload.repo, payload.pull_number, payload.comments || []
+  );
+
+  // Fold un-anchorable items into the top body as diagnostics
+  const bodyWith = (diags: DraftComment[]) => {
+    let body = String(payload.body || "");
+    if (diags.length) {
+      const bullets = renderCommentsMarkdown(payload.owner, payload.repo, payload.head_sha, diags);
+      body += `\n\n---\n**Diagnostics:**\n${bullets}`;
+    }
+    return body;
+  };
+
+  if (diagnostics.length) console.log("[Actuator] diagnostics:", diagnostics[0], valid)
+
+  if (DEBUG) {
+    console.log("[Actuator] posting review:", {
+      owner: payload.owner,
+      repo: payload.repo,
+      pull_number: payload.pull_number,
+      comments: (payload.comments || []).length,
+      body_len: (payload.body || "").length,
+      body: bodyWith(diagnostics),
+    });
+  }
+
+  const post = (inline: DraftComment[], diags: DraftComment[]) =>
+    octo.rest.pulls.createReview({
       owner: payload.owner,
       repo: payload.repo,
       pull_number: payload.pull_number,
       commit_id: payload.head_sha,
       event: payload.event || "COMMENT",
-      body,
-      comments: valid.map((c: GitHubComment) => ({
-        path: c.path,
-        line: c.line,
-        side: c.side || "RIGHT",
-        body: c.body,
-      })),
+      body: bodyWith(diags),
+      comments: inline.map(toReviewComment),
     });
-  
 
-    if (OutboundAction) {
-      await OutboundAction.update(
-        { status: "dispatched", dispatched_at: new Date(), last_error: null },
-        { where: { id: (a as OutboundRow).id } }
-      );
+  const degraded: DegradedComment[] = [];
+  let review: Awaited<ReturnType<typeof post>>["data"];
+  try {
+    ({ data: review } = await post(valid, diagnostics));
+  } catch (e) {
+    if (!isUnprocessable(e) || !valid.length) throw e;
+
+    // One bad anchor fails the whole review: find the offenders, demote them, post the rest
+    const details = reviewErrorDetails(e);
+    const found = rejectedByIndex(details, valid.length) ?? (await probeRejectedComments(octo, a, payload, valid));
+    // Nothing pinned down → every inline comment goes to the body
+    const rejected = found?.size ? found : new Map(valid.map((_, i) => [i, details.join("; ")] as const));
+    console.warn(`[Actuator] review rejected (422); demoting ${rejected.size}/${valid.length} comment(s):`, details);
+
+    const demoted: DraftComment[] = [];
+    valid.forEach((c, i) => {
+      const error = rejected.get(i);
+      if (error == null) return;
+      degraded.push({ path: c.path, line: c.line, ...(c.start_line != null ? { start_line: c.start_line } : {}), error });
+      demoted.push({ ...c, body: `${c.body}\n\n_GitHub rejected this inline comment: ${error}_` });
+    });
+    // a second failure takes the normal retry path
+    ({ data: review } = await post(valid.filter((_, i) => !rejected.has(i)), [...diagnostics, ...demoted]));
+  }
+
+  // Remember the inline comments so feedback collection can find their reactions/threads
+  let comment_ids: number[] = [];
+  try {
+    const { data: posted } = await octo.rest.pulls.listCommentsForReview({
+      owner: payload.owner,
+      repo: payload.repo,
+      pull_number: payload.pull_number,
+      review_id: review.id,
+      per_page: 100,
+    });
+    comment_ids = posted.map((c) => c.id);
+  } catch (e) {
+    console.warn("[Actuator] listing posted review comments failed:", e);
+  }
+  return { review_id: review.id, comment_ids, degraded };
+}
+
+/**
+ * Create the "ResolvCI" check on the head SHA; annotations go out in batches
+ * of 50. The run id and sent batches are saved as we go, so a retry after a
+ * failed batch continues on the same run instead of creating another.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function postCheckRun(octo: Octokit, a: OutboundRow, payload: any): Promise<GitHubRef> {
+  const annotations: CheckAnnotation[] = payload.annotations || [];
+  const batches: CheckAnnotation[][] = [];
+  for (let i = 0; i < annotations.length; i += ANNOTATIONS_PER_REQUEST) {
+    batches.push(annotations.slice(i, i + ANNOTATIONS_PER_REQUEST));
+  }
+  const output = (batch: CheckAnnotation[]) => ({
+    title: payload.title,
+    summary: payload.summary,
+    annotations: batch,
+  });
+
+  const prior: GitHubRef = a.github_ref_json ? JSON.parse(a.github_ref_json) : {};
+  const progress = (ref: GitHubRef) => renewLease(a, { github_ref_json: JSON.stringify(ref) });
+
+  let ref: GitHubRef;
+  if (prior.check_run_id != null) {
+    ref = { check_run_id: prior.check_run_id, annotation_batches: prior.annotation_batches ?? 0 };
+  } else {
+    const { data } = await octo.rest.checks.create({
+      owner: payload.owner,
+      repo: payload.repo,
+      name: payload.name || CHECK_RUN_NAME,
+      head_sha: payload.head_sha,
+      status: "completed",
+      conclusion: "neutral",   // advisory: never block merges
+      output: output(batches[0] ?? []),
+    });
+    ref = { check_run_id: data.id, annotation_batches: 1 };
+    await progress(ref);
+  }
+
+  // updates append annotations: only send the batches a failed attempt didn't
+  for (const batch of batches.slice(ref.annotation_batches ?? 1)) {
+    await octo.rest.checks.update({
+      owner: payload.owner,
+      repo: payload.repo,
+      check_run_id: ref.check_run_id!,
+      output: output(batch),
+    });
+    ref = { ...ref, annotation_batches: (ref.annotation_batches ?? 1) + 1 };
+    await progress(ref);
+  }
+  return ref;
+}
+
+/** Issue a previous dispatch opened for the same repo + branch + failure, if it is still open */
+async function openIssueFor(octo: Octokit, a: OutboundRow, owner: string, repo: string, issue_key: string) {
+  const prior = await OutboundAction.findOne({
+    attributes: ["github_ref_json"],
+    where: {
+      repo_owner: owner,
+      repo_name: repo,
+      dedupe_key: issue_key,
+      action_type: "issue",
+      status: "dispatched",
+      id: { [Op.ne]: a.id },
+    },
+    order: [["id", "DESC"]],
+  });
+  const ref = prior ? (JSON.parse(String(prior.get("github_ref_json") ?? "{}")) as GitHubRef) : null;
+  if (ref?.issue_number == null) return null;
+
+  const { data } = await octo.rest.issues.get({ owner, repo, issue_number: ref.issue_number });
+  return data.state === "open" ? data.number : null;
+}
+
+/**
+ * Open an issue for a failure without a PR. If this failure already has an
+ * open issue on the branch, refresh its title/body and comment on it instead.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function postIssue(octo: Octokit, a: OutboundRow, payload: any): Promise<GitHubRef> {
+  const { owner, repo } = payload;
+  const open = payload.issue_key ? await openIssueFor(octo, a, owner, repo, payload.issue_key) : null;
+  if (open == null) {
+    const { data } = await octo.rest.issues.create({ owner, repo, title: payload.title, body: payload.body });
+    return { issue_number: data.number };
+  }
+
+  await octo.rest.issues.update({ owner, repo, issue_number: open, title: payload.title, body: payload.body });
+  const { data } = await octo.rest.issues.createComment({
+    owner,
+    repo,
+    issue_number: open,
+    body: `Still failing at ${payload.head_sha}; the description above now reflects the latest run.`,
+  });
+  return { issue_number: open, comment_id: data.id };
+}
+
+const DISPATCHABLE = new Set(["pr_review", "check_run", "commit_comment", "issue"]);
+
+/** Post a single staged action (PR review, check run, commit comment or issue); idempotent & safe to retry */
+export async function dispatchOneOutboundAction(a: OutboundRow) {
+  const payload = JSON.parse(a.payload_json);
+  if (!DISPATCHABLE.has(payload.type)) {
+    if (DEBUG) console.log("[Actuator] skip unknown action type:", payload.type, a.id);
+    return { ok: true, skipped: true };
+  }
+
+  const octo = await getOctoForAction(a);
+
+  try {
+    // Never post on a stale commit: drop PR-bound actions whose head moved on
+    if (payload.pull_number != null) {
+      const { data: pr } = await octo.rest.pulls.get({
+        owner: payload.owner,
+        repo: payload.repo,
+        pull_number: payload.pull_number,
+      });
+      if (pr.head.sha !== payload.head_sha) {
+        await OutboundAction.update(
+          {
+            status: "superseded",
+            last_error: `superseded by ${pr.head.sha}`,
+            next_attempt_at: null,
+            claimed_by: null,
+            lease_expires_at: null,
+          },
+          { where: ownedBy(a) }
+        );
+        if (DEBUG) console.log("[Actuator] PR head moved; dropped:", a.id, payload.head_sha, "→", pr.head.sha);
+        return { ok: true, superseded: true, id: a.id };
+      }
+    }
+
+    /** Ids of what got posted; kept for feedback collection */
+    let ref: GitHubRef;
+    let degraded: DegradedComment[] = [];
+    if (payload.type === "pr_review") {
+      ({ degraded, ...ref } = await postPrReview(octo, a, payload));
+    } else if (payload.type === "check_run") {
+      ref = await postCheckRun(octo, a, payload);
+    } else if (payload.type === "commit_comment") {
+      const { data } = await octo.rest.repos.createCommitComment({
+        owner: payload.owner,
+        repo: payload.repo,
+        commit_sha: payload.head_sha,
+        body: payload.body,
+      });
+      ref = { comment_id: data.id };
     } else {
-      await sequelize.query(
-        `UPDATE outbound_actions
-           SET status='dispatched', dispatched_at=NOW(), last_error=NULL
-         WHERE id = :id`,
-        { replacements: { id: (a as OutboundRow).id } }
-      );
+      ref = await postIssue(octo, a, payload);
     }
 
+    const [updated] = await OutboundAction.update(
+      {
+        status: "dispatched",
+        dispatched_at: new Date(),
+        github_ref_json: JSON.stringify(ref),
+        degraded_json: degraded.length ? JSON.stringify(degraded) : null,
+        last_error: null,
+        next_attempt_at: null,
+        claimed_by: null,
+        lease_expires_at: null,
+      },
+      { where: ownedBy(a) }
+    );
+    if (!updated) console.warn("[Actuator] lease lost before marking dispatched:", a.id, a.claimed_by);
+
     if (DEBUG) console.log("[Actuator] dispatched OK:", a.id);
     return { ok: true, id: (a as OutboundRow).id };
   } catch (err: unknown) {
@@ -330,26 +949,47 @@ export async function dispatchOneOutboundAction(a: OutboundRow) {
       message = String(err?.message ?? err);
     }
     console.error("[Actuator] dispatch error:", message);
-    if (OutboundAction) {
-      await OutboundAction.update(
-        {
-          status: "error",
-          attempt_count: (a.attempt_count ?? 0) + 1,
-          last_error: message.slice(0, 1000),
-        },
-        { where: { id: (a as OutboundRow).id } }
-      );
-    } else {
-      await sequelize.query(
-        `UPDATE outbound_actions
-           SET status='error',
-               attempt_count=COALESCE(attempt_count,0)+1,
-               last_error=:err
-         WHERE id = :id`,
-        { replacements: { id: (a as OutboundRow).id, err: message.slice(0, 1000) } }
-      );
-    }
+    await recordDispatchFailure(a, err);
 
     return { ok: false, error: message };
   }
 }
+
+/**
+ * Failed dispatch → schedule a retry with exponential backoff (status 'error',
+ * picked up again once next_attempt_at passes) or, when the error is not
+ * retryable or attempts are exhausted, park it as 'dead' for an operator.
+ */
+export async function recordDispatchFailure(a: OutboundRow, err: unknown) {
+  const message = String((err as Error)?.message ?? err).slice(0, 1000);
+  const attempts = (a.attempt_count ?? 0) + 1;
+  const retryable = isRetryableGitHubError(err);
+  const dead = !retryable || attempts >= MAX_DISPATCH_ATTEMPTS;
+
+  let next_attempt_at: Date | null = null;
+  if (!dead) {
+    const backoff = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * Math.pow(2, attempts - 1));
+    const jitter = Math.floor(Math.random() * Math.min(backoff, 5000));
+    next_attempt_at = new Date(Date.now() + Math.max(backoff + jitter, retryAfterMs(err, RETRY_MAX_MS) ?? 0));
+  }
+
+  await OutboundAction.update(
+    {
+      status: dead ? "dead" : "error",
+      attempt_count: attempts,
+      next_attempt_at,
+      last_error: message,
+      claimed_by: null,
+      lease_expires_at: null,
+    },
+    { where: ownedBy(a) }
+  );
+
+  if (DEBUG || dead) {
+    console.warn(
+      `[Actuator] action ${a.id} ${dead ? "dead-lettered" : "scheduled for retry"}`,
+      { attempts, retryable, next_attempt_at }
+    );
+  }
+  return { dead, next_attempt_at };
+}
@@ -7,13 +7,49 @@ import {
   HumanMessage,
 } from "@langchain/core/messages";
 
-import { sequelize, BuildFailure, BuildFailureRow } from "@/lib/tidb";
-import { sha1, normalize, redactSecrets, templateize } from "@/lib/text";
+import {
+  sequelize,
+  BuildFailure,
+  BuildFailureRow,
+  getInstallationSettings,
+  type RecommendationOutcome,
+} from "@/lib/tidb";
+import { sha1, normalize, redactSecrets } from "@/lib/text";
+import { parseLog, errorSignatureV2, findingsKey, type LogFinding, type ParsedLog } from "@/lib/log-parsers";
+import { errorClassOf } from "@/lib/log-parsers/common";
+import type { FailingTestCase } from "@/lib/test-reports";
+import {
+  knowledgeScopeSql,
+  knowledgeScopeWhere,
+  provenanceOf,
+  type Provenance,
+  type ScopeContext,
+} from "@/agents/knowledge";
+import { occurrenceUrl } from "@/agents/flaky";
+import type { SolutionsReturn } from "@/agents/solutions";
 /* ====================== Config & small helpers ====================== */
 
 const CHAT_MODEL = process.env.LLM_MODEL_CHAT || "gpt-4o-mini";
 const TAIL_LINES = Number(process.env.ANALYSIS_TAIL_LINES ?? "300");
 const VECTOR_SIM_THRESHOLD = Number(process.env.VECTOR_SIM_THRESHOLD ?? "0");
+// Prior-fix recency decay: weight halves every N days
+const RECENCY_HALF_LIFE_DAYS = Number(process.env.ANALYSIS_RECENCY_HALF_LIFE_DAYS ?? "30");
+const SOLUTION_POOL = 20;   // vector candidates re-ranked by the hybrid scorer
+const SOLUTION_TOP_K = 5;
+const MAX_FINDINGS = 10;    // parser findings handed downstream
+const MAX_ITEMS = Number(process.env.ANALYSIS_MAX_ITEMS ?? "5");
+const ITEM_TOP_K = 3;       // prior fixes per failure item
+// Broken base branch: same signature on the base branch, or on this many other PRs, within the window
+const PREEXISTING_WINDOW_DAYS = Number(process.env.PREEXISTING_WINDOW_DAYS ?? "7");
+const PREEXISTING_MIN_PRS = Number(process.env.PREEXISTING_MIN_PRS ?? "3");
+const PREEXISTING_LINKS = 5;
+
+// Hybrid scorer weights (sum of the positive parts = 1)
+const W_VECTOR = 0.45;
+const W_SIGNATURE = 0.25;
+const W_RECENCY = 0.1;
+const W_OUTCOME = 0.1;      // accepted +, rejected −
+const W_CONFIDENCE = 0.1;
 
 
 /** Keep only last N lines */
@@ -27,8 +63,22 @@ const AnalysisSchema = z.object({
   file_hint: z.string().optional().default(""),
   failing_test: z.string().optional().default(""),
   keywords: z.array(z.string()).optional().default([]),
+  // every independent failure in the log (used when no parser/report recognised it)
+  failures: z
+    .array(
+      z.object({
+        error_class: z.string().optional().default(""),
+        message: z.string().optional().default(""),
+        file_hint: z.string().optional().default(""),
+        failing_test: z.string().optional().default(""),
+      })
+    )
+    .optional()
+    .default([]),
 });
 
+type LlmAnalysis = z.infer<typeof AnalysisSchema>;
+
 export type StructuredAnalysis = {
   error_signature: string;
   error_class: string;
@@ -36,12 +86,63 @@ export type StructuredAnalysis = {
   file_hint: string;
   failing_test: string;
   keywords: string[];
+  findings: LogFinding[];   // deterministic parser output (precise locations / test ids)
+  parsers: string[];        // parsers that recognised the log; empty → LLM-only
+};
+
+/** One independent failure of the run: a broken test, a compile or lint error, … */
+export type FailureItem = {
+  id: string;               // "F1", "F2", … (referenced by Solutions' changes)
+  signature: string;        // sha1 of the item's findings key (= v2 of a run failing with only this)
+  source: "report" | "parser" | "llm";
+  error_class: string;
+  message: string;
+  file: string | null;
+  line: number | null;
+  test: string | null;
+  similar_solutions: AnalysisOutput["similar_solutions"]; // prior fixes for this item alone
+};
+
+/** Does this PR failure already happen on the base branch (or across unrelated PRs)? */
+export type PreexistingVerdict = {
+  preexisting: boolean;
+  base_branch: string | null;
+  base_failures: number;    // push builds of the base branch with the same signature
+  other_prs: number;        // distinct other PRs with the same signature
+  prior: Array<{
+    failure_id: number;
+    pr_number: number | null;
+    head_branch: string | null;
+    commit_sha: string;
+    failure_timestamp: string | Date;
+    url: string;
+  }>;
+};
+
+/** Why a prior fix was surfaced: each weighted part of its hybrid score */
+export type SolutionScoreBreakdown = {
+  vector: number;       // W_VECTOR × cosine similarity
+  signature: number;    // W_SIGNATURE × (1 exact v1 match, 0.7 templated v2 match)
+  recency: number;      // W_RECENCY × half-life decay on age
+  outcome: number;      // ±W_OUTCOME for accepted / rejected
+  confidence: number;   // W_CONFIDENCE × the fix's own confidence
+  match_on: "v1" | "v2" | null;
+  age_days: number;
 };
 
 export type AnalysisOutput = {
   window: string; // original tail (unredacted; used by later agents—safe to keep internal)
   structured: StructuredAnalysis;
 
+  // Failing cases from the run's test-report artifacts (JUnit/TRX/TAP); most precise evidence when present
+  failing_tests: FailingTestCase[];
+
+  // Distinct failures of the run (items[0] ≈ the structured fields above)
+  items: FailureItem[];
+
+  // Same signature already red on the base branch / other PRs → not this PR's fault (null: not a PR failure)
+  preexisting: PreexistingVerdict | null;
+
   // Exact neighbors by persisted signatures
   similar_failures: Array<{
     failure_id: number;
@@ -51,6 +152,8 @@ export type AnalysisOutput = {
     error_signature_v1?: string | null;
     error_signature_v2?: string | null;
     match_on: "v1" | "v2";
+    provenance: Provenance;
+    source_repo: string; // owner/name
   }>;
 
   // Semantic neighbors by normalized tail vector
@@ -60,9 +163,11 @@ export type AnalysisOutput = {
     commit_sha: string;
     failure_timestamp: string | Date;
     similarity: number; // 0..1
+    provenance: Provenance;
+    source_repo: string;
   }>;
 
-  // Prior solutions (vector over fix_recommendations)
+  // Prior solutions (vector over fix_recommendations), within the installation's knowledge scope
   similar_solutions: Array<{
     id: number;
     failure_id: number | null;
@@ -72,7 +177,12 @@ export type AnalysisOutput = {
     rationale: string | null;
     changes_json?: unknown;
     created_at: string | Date;
-    similarity: number; // 0..1
+    similarity: number; // 0..1 (vector)
+    outcome: RecommendationOutcome;
+    score: number;      // hybrid rank score (see scoreSolution)
+    score_breakdown: SolutionScoreBreakdown;
+    provenance: Provenance;
+    source_repo: string;
   }>;
 
   messages: BaseMessage[]; // keep stateless (empty) to avoid duplication across loops
@@ -82,17 +192,20 @@ function logAnalysisDebug(
   failureId: number | null | undefined,
   out: Pick<
   AnalysisOutput,
-  "window" | "structured" | "similar_failures" | "similar_by_tail" | "similar_solutions"
+  "window" | "structured" | "failing_tests" | "items" | "preexisting" | "similar_failures" | "similar_by_tail" | "similar_solutions"
 >
 ) {
   const safeTail = out.window.split("\n").slice(-120).join("\n"); // cap to last 120 lines
   const summary = {
     failure_id: failureId ?? null,
     structured: out.structured,
+    failing_tests: out.failing_tests.map((t) => ({ name: t.name, file: t.file, line: t.line })),
+    items: out.items.map((i) => ({ id: i.id, source: i.source, error_class: i.error_class, file: i.file, test: i.test })),
+    preexisting: out.preexisting && { ...out.preexisting, prior: out.preexisting.prior.map((p) => p.failure_id) },
     similar_failures: out.similar_failures,
     similar_by_tail: out.similar_by_tail,
     similar_solutions: out.similar_solutions.map(s => ({
-      id: s.id, similarity: s.similarity, summary_one_liner: s.summary_one_liner
+      id: s.id, similarity: s.similarity, provenance: s.provenance, summary_one_liner: s.summary_one_liner
     })),
   };
   // pretty print (avoid huge arrays)
@@ -125,6 +238,15 @@ export async function analyzeFailure(f: {
   let sigV1: string | null | undefined;
   let sigV2: string | null | undefined;
   let normTail: string | null | undefined;
+  let failing_tests: FailingTestCase[] = [];
+  let baseBranch: string | null = null;
+  // Knowledge sharing: repo-only unless the installation opted in to more
+  const scope: ScopeContext = {
+    repo_owner: f.repo_owner,
+    repo_name: f.repo_name,
+    scope: "repo",
+    target_private: false,
+  };
 
   if (f.failure_id) {
     const row = await BuildFailure.findByPk(f.failure_id);
@@ -132,14 +254,22 @@ export async function analyzeFailure(f: {
     sigV1 = j?.error_signature_v1 ?? null;
     sigV2 = j?.error_signature_v2 ?? null;
     normTail = j?.norm_tail ?? null;
+    failing_tests = parseFailingTests(j?.test_reports_json);
+    baseBranch = j?.base_branch ?? null;
+    scope.scope = (await getInstallationSettings(j?.installation_id)).knowledge_scope;
+    scope.target_private = j?.repo_private === true;
   }
+  const sourceRepo = (r: { repo_owner: string; repo_name: string }) => `${r.repo_owner}/${r.repo_name}`;
 
   // Backfill ephemeral values (without writing) if needed
   if (!normTail) normTail = normalize(redacted);
   if (!sigV1) sigV1 = sha1(normTail);
-  if (!sigV2) sigV2 = sha1(templateize(normTail));
+  if (!sigV2) sigV2 = errorSignatureV2(redacted, normTail);
+
+  // 1) Deterministic parsers first; the LLM only fills the fields they left empty
+  let structured = withTestReports(fromFindings(sigV1 || "", parseLog(redacted)), failing_tests);
+  const gaps = !structured.error_class || !structured.message || !structured.file_hint;
 
-  // 1) Run LLM extraction with timeouts/retries
   const llm = new ChatOpenAI({
     model: CHAT_MODEL,
     temperature: 0,
@@ -148,23 +278,18 @@ export async function analyzeFailure(f: {
   });
 
   const sys = new SystemMessage(
-    'You are a CI log analyst. Return ONLY JSON with keys: {"error_class":string,"message":string,"file_hint":string,"failing_test":string,"keywords":string[]}'
+    'You are a CI log analyst. Return ONLY JSON with keys: {"error_class":string,"message":string,"file_hint":string,"failing_test":string,"keywords":string[],' +
+      '"failures":[{"error_class":string,"message":string,"file_hint":string,"failing_test":string}]}. ' +
+      "The top-level fields describe the primary error; `failures` lists every independent error in the log (distinct tests / files), primary first."
   );
   const user = new HumanMessage(`<log>\n${redacted}\n</log>\nReturn the strict JSON object only.`);
 
-  let structured: StructuredAnalysis = {
-    error_signature: sigV1 || "",
-    error_class: "",
-    message: "",
-    file_hint: "",
-    failing_test: "",
-    keywords: [],
-  };
-
-  if (redacted.trim()) {
+  let llmFailures: LlmAnalysis["failures"] = [];
+  if (redacted.trim() && gaps) {
     try {
-      const parsed = await llm.withStructuredOutput(AnalysisSchema).invoke([sys, user]);
-      structured = toStructured(sigV1 || "", parsed);
+      const parsed = AnalysisSchema.parse(await llm.withStructuredOutput(AnalysisSchema).invoke([sys, user]));
+      structured = fillGaps(structured, parsed);
+      llmFailures = parsed.failures;
     } catch {
       // keep defaults on LLM failure
     }
@@ -179,10 +304,11 @@ export async function analyzeFailure(f: {
       "failure_timestamp",
       "error_signature_v1",
       "error_signature_v2",
+      "repo_owner",
+      "repo_name",
     ],
     where: {
-      repo_owner: f.repo_owner,
-      repo_name: f.repo_name,
+      ...knowledgeScopeWhere(scope),
       error_signature_v1: sigV1,
     },
     order: [["failure_timestamp", "DESC"]],
@@ -197,10 +323,11 @@ export async function analyzeFailure(f: {
       "failure_timestamp",
       "error_signature_v1",
       "error_signature_v2",
+      "repo_owner",
+      "repo_name",
     ],
     where: {
-      repo_owner: f.repo_owner,
-      repo_name: f.repo_name,
+      ...knowledgeScopeWhere(scope),
       error_signature_v2: sigV2,
     },
     order: [["failure_timestamp", "DESC"]],
@@ -218,6 +345,8 @@ export async function analyzeFailure(f: {
         error_signature_v1: j.error_signature_v1,
         error_signature_v2: j.error_signature_v2,
         match_on: "v1" as const,
+        provenance: provenanceOf(j, scope),
+        source_repo: sourceRepo(j),
       };
     }),
     ...exactV2.map((r: Model) => {
@@ -230,6 +359,8 @@ export async function analyzeFailure(f: {
         error_signature_v1: j.error_signature_v1,
         error_signature_v2: j.error_signature_v2,
         match_on: "v2" as const,
+        provenance: provenanceOf(j, scope),
+        source_repo: sourceRepo(j),
       };
     }),
   ]
@@ -240,21 +371,24 @@ export async function analyzeFailure(f: {
   // Uses TiDB auto-embedding on build_failures.norm_tail_vec
   let similar_by_tail: AnalysisOutput["similar_by_tail"] = [];
   try {
+    const inScope = knowledgeScopeSql("build_failures", scope);
     const rows = (await sequelize.query(
       `
-      SELECT failure_id, pr_number, commit_sha, failure_timestamp,
+      SELECT failure_id, repo_owner, repo_name, pr_number, commit_sha, failure_timestamp,
              VEC_EMBED_COSINE_DISTANCE(norm_tail_vec, :q) AS _distance
       FROM build_failures
-      WHERE repo_owner = :owner AND repo_name = :repo AND norm_tail IS NOT NULL
+      WHERE ${inScope.sql} AND norm_tail IS NOT NULL
       ORDER BY _distance ASC
       LIMIT 5
       `,
       {
-        replacements: { q: normTail || "", owner: f.repo_owner, repo: f.repo_name },
+        replacements: { q: normTail || "", ...inScope.replacements },
         type: QueryTypes.SELECT,
       }
     )) as Array<{
       failure_id: number;
+      repo_owner: string;
+      repo_name: string;
       pr_number: number | null;
       commit_sha: string;
       failure_timestamp: string | Date;
@@ -272,6 +406,8 @@ export async function analyzeFailure(f: {
           commit_sha: r.commit_sha,
           failure_timestamp: r.failure_timestamp,
           similarity: sim,
+          provenance: provenanceOf(r, scope),
+          source_repo: sourceRepo(r),
         };
       })
       .filter((x) => x.similarity >= VECTOR_SIM_THRESHOLD);
@@ -291,58 +427,44 @@ export async function analyzeFailure(f: {
     .filter(Boolean)
     .join("\n");
 
-  type FixRow = {
-    id: number;
-    failure_id: number | null;
-    repo_owner: string;
-    repo_name: string;
-    pr_number: number | null;
-    head_sha: string | null;
-    summary_one_liner: string | null;
-    rationale: string | null;
-    changes_json?: unknown;
-    created_at: string | Date;
-    _distance?: number | string | null;
-  };
-
   let similar_solutions: AnalysisOutput["similar_solutions"] = [];
   try {
-    const rows = (await sequelize.query(
-      `
-      SELECT
-        id, failure_id, repo_owner, repo_name, pr_number, head_sha,
-        summary_one_liner, rationale, changes_json, created_at,
-        VEC_EMBED_COSINE_DISTANCE(content_vector, :q) AS _distance
-      FROM fix_recommendations
-      WHERE repo_owner = :owner AND repo_name = :repo
-      ORDER BY _distance ASC
-      LIMIT 5
-      `,
-      {
-        replacements: { q: solQuery, owner: f.repo_owner, repo: f.repo_name },
-        type: QueryTypes.SELECT,
-      }
-    )) as FixRow[];
-
-    similar_solutions = rows.map((r) => {
-      const dist = Number(r._distance ?? 1);
-      const sim = Math.max(0, Math.min(1, 1 - Math.max(0, Math.min(dist, 1))));
-      return {
-        id: r.id,
-        failure_id: r.failure_id,
-        pr_number: r.pr_number,
-        head_sha: r.head_sha,
-        summary_one_liner: r.summary_one_liner,
-        rationale: r.rationale,
-        changes_json: r.changes_json,
-        created_at: r.created_at,
-        similarity: sim,
-      };
+    similar_solutions = await findSimilarSolutions({
+      scope,
+      query: solQuery,
+      sigV1: sigV1 ?? null,
+      sigV2: sigV2 ?? null,
+      exclude_failure_id: f.failure_id ?? null,
     });
   } catch {
     similar_solutions = [];
   }
 
+  // 5) Independent failures, each with its own signature and prior fixes
+  const items = await withPriorFixes(collectItems(structured, failing_tests, llmFailures), {
+    scope,
+    exclude_failure_id: f.failure_id ?? null,
+    overall: similar_solutions,
+  });
+
+  // 6) Red base branch? Then the PR isn't to blame
+  let preexisting: PreexistingVerdict | null = null;
+  if (f.pr_number != null) {
+    try {
+      preexisting = await assessPreexisting({
+        repo_owner: f.repo_owner,
+        repo_name: f.repo_name,
+        pr_number: f.pr_number,
+        commit_sha: f.commit_sha,
+        base_branch: baseBranch,
+        sigV1: sigV1 ?? null,
+        sigV2: sigV2 ?? null,
+      });
+    } catch {
+      preexisting = null;
+    }
+  }
+
   /**
    *Analysis node returns messages: [] (to keep the graph stateless and avoid token bloat)
    * We keep analysis stateless for loops to avoid message bloat.
@@ -359,6 +481,9 @@ export async function analyzeFailure(f: {
     logAnalysisDebug(f.failure_id, {
       window,
       structured,
+      failing_tests,
+      items,
+      preexisting,
       similar_failures,
       similar_by_tail,
       similar_solutions,
@@ -368,6 +493,9 @@ export async function analyzeFailure(f: {
   return {
     window, // unredacted tail (internal)
     structured,
+    failing_tests,
+    items,
+    preexisting,
     similar_failures,
     similar_by_tail,
     similar_solutions,
@@ -375,16 +503,429 @@ export async function analyzeFailure(f: {
   };
 }
 
+/* ============================ Failure items ============================ */
+
+type ItemDraft = Omit<FailureItem, "id" | "similar_solutions">;
+
+function itemFrom(source: FailureItem["source"], f: Omit<LogFinding, "index" | "column">): ItemDraft {
+  return {
+    signature: sha1(findingsKey([{ ...f, index: 0, column: null }]) ?? ""),
+    source,
+    error_class: f.error_class,
+    message: f.message,
+    file: f.file,
+    line: f.line,
+    test: f.test,
+  };
+}
+
+/**
+ * Distinct failures, most precise evidence first: report test cases, then
+ * parser findings not already covered by a report, else the LLM's list (or
+ * its single structured answer).
+ */
+function collectItems(
+  structured: StructuredAnalysis,
+  tests: FailingTestCase[],
+  llmFailures: LlmAnalysis["failures"]
+): FailureItem[] {
+  const drafts: ItemDraft[] = tests.map((t) =>
+    itemFrom("report", {
+      parser: "report",
+      error_class: errorClassOf(t.message, "TestFailure"),
+      message: t.message,
+      file: t.file,
+      line: t.line,
+      test: t.classname && !t.name.startsWith(t.classname) ? `${t.classname}.${t.name}` : t.name,
+    })
+  );
+
+  const covered = (f: LogFinding) =>
+    drafts.some(
+      (d) =>
+        (f.test && d.test && (d.test.endsWith(f.test) || f.test.endsWith(d.test))) ||
+        (f.file && d.file === f.file && f.line != null && d.line === f.line)
+    );
+  for (const f of structured.findings) {
+    if (!covered(f)) drafts.push(itemFrom("parser", f));
+  }
+
+  if (!drafts.length) {
+    const llm = llmFailures.length
+      ? llmFailures
+      : [structured].map((s) => ({
+          error_class: s.error_class, message: s.message, file_hint: s.file_hint, failing_test: s.failing_test,
+        }));
+    for (const x of llm) {
+      if (!x.error_class && !x.message && !x.file_hint && !x.failing_test) continue;
+      drafts.push(
+        itemFrom("llm", {
+          parser: "llm",
+          error_class: x.error_class,
+          message: x.message,
+          file: x.file_hint || null,
+          line: null,
+          test: x.failing_test || null,
+        })
+      );
+    }
+  }
+
+  const seen = new Set<string>();
+  return drafts
+    .filter((d) => {
+      if (seen.has(d.signature)) return false;
+      seen.add(d.signature);
+      return true;
+    })
+    .slice(0, MAX_ITEMS)
+    .map((d, i) => ({ ...d, id: `F${i + 1}`, similar_solutions: [] }));
+}
+
+/** Per-item retrieval; a single item shares the run-level results */
+async function withPriorFixes(
+  items: FailureItem[],
+  ctx: { scope: ScopeContext; exclude_failure_id: number | null; overall: AnalysisOutput["similar_solutions"] }
+): Promise<FailureItem[]> {
+  if (items.length <= 1) return items.map((it) => ({ ...it, similar_solutions: ctx.overall.slice(0, ITEM_TOP_K) }));
+
+  const out: FailureItem[] = [];
+  for (const it of items) {
+    let similar: AnalysisOutput["similar_solutions"] = [];
+    try {
+      similar = await findSimilarSolutions({
+        scope: ctx.scope,
+        query: [it.error_class, it.message, it.file, it.test].filter(Boolean).join("\n"),
+        sigV1: null,
+        sigV2: it.signature,
+        exclude_failure_id: ctx.exclude_failure_id,
+      });
+    } catch {
+      similar = [];
+    }
+    out.push({ ...it, similar_solutions: similar.slice(0, ITEM_TOP_K) });
+  }
+  return out;
+}
+
+/* ============================ Broken base ============================ */
+
+/**
+ * Same signature (v1 or v2) within the window on push builds of the PR's
+ * base branch, or on several other PRs → pre-existing. Re-runs / other jobs
+ * of this commit don't count.
+ */
+async function assessPreexisting(p: {
+  repo_owner: string;
+  repo_name: string;
+  pr_number: number;
+  commit_sha: string;
+  base_branch: string | null;
+  sigV1: string | null;
+  sigV2: string | null;
+}): Promise<PreexistingVerdict> {
+  const sigs = [p.sigV1, p.sigV2].filter((x): x is string => !!x);
+  const none: PreexistingVerdict = { preexisting: false, base_branch: p.base_branch, base_failures: 0, other_prs: 0, prior: [] };
+  if (!sigs.length) return none;
+
+  const rows = (await sequelize.query(
+    `
+    SELECT failure_id, pr_number, head_branch, commit_sha, run_id, run_attempt, failure_timestamp
+    FROM build_failures
+    WHERE repo_owner = :owner
+      AND repo_name = :repo
+      AND (error_signature_v1 IN (:sigs) OR error_signature_v2 IN (:sigs))
+      AND commit_sha <> :sha
+      AND status <> 'coalesced'
+      AND failure_timestamp >= :since
+      AND ((pr_number IS NULL AND head_branch = :base) OR pr_number <> :pr)
+    ORDER BY failure_timestamp DESC
+    LIMIT 100
+    `,
+    {
+      type: QueryTypes.SELECT,
+      replacements: {
+        owner: p.repo_owner,
+        repo: p.repo_name,
+        sigs,
+        sha: p.commit_sha,
+        since: new Date(Date.now() - PREEXISTING_WINDOW_DAYS * 86_400_000),
+        base: p.base_branch ?? "",
+        pr: p.pr_number,
+      },
+    }
+  )) as Array<{
+    failure_id: number;
+    pr_number: number | null;
+    head_branch: string | null;
+    commit_sha: string;
+    run_id: string | null;
+    run_attempt: number | null;
+    failure_timestamp: string | Date;
+  }>;
+
+  const onBase = rows.filter((r) => r.pr_number == null);
+  const otherPrs = new Set(rows.filter((r) => r.pr_number != null).map((r) => r.pr_number)).size;
+  const preexisting = onBase.length > 0 || otherPrs >= PREEXISTING_MIN_PRS;
+
+  return {
+    preexisting,
+    base_branch: p.base_branch,
+    base_failures: onBase.length,
+    other_prs: otherPrs,
+    // base-branch runs first: they are the stronger evidence
+    prior: [...onBase, ...rows.filter((r) => r.pr_number != null)].slice(0, PREEXISTING_LINKS).map((r) => ({
+      failure_id: Number(r.failure_id),
+      pr_number: r.pr_number,
+      head_branch: r.head_branch,
+      commit_sha: r.commit_sha,
+      failure_timestamp: r.failure_timestamp,
+      url: occurrenceUrl(p.repo_owner, p.repo_name, r),
+    })),
+  };
+}
+
+/** "Also fails on main" notice in place of suggestions */
+export function preexistingNoticeSolution(v: PreexistingVerdict): SolutionsReturn {
+  const base = v.base_branch ? `\`${v.base_branch}\`` : "the base branch";
+  const one_liner = v.base_failures
+    ? `this failure also occurs on ${base}`
+    : `this failure also occurs on ${v.other_prs} other PRs`;
+  const seen = [
+    v.base_failures && `${v.base_failures} time(s) on ${base}`,
+    v.other_prs && `on ${v.other_prs} other PR(s)`,
+  ].filter(Boolean).join(" and ");
+  const links = v.prior.map((o) => {
+    const where = o.pr_number != null ? `PR #${o.pr_number}` : `\`${o.head_branch ?? "build"}\``;
+    const date = new Date(o.failure_timestamp).toISOString().slice(0, 10);
+    return `- [${where} @ \`${o.commit_sha.slice(0, 7)}\`](${o.url}) — ${date}`;
+  });
+
+  const summaryMarkdown = [
+    `**ResolvCI** — ${one_liner}`,
+    ``,
+    `The same error was seen ${seen} in the last ${PREEXISTING_WINDOW_DAYS} days, so it is most likely not caused by ` +
+      `this pull request and no changes are suggested. Once ${base} is green again, update this branch from it.`,
+    ...(links.length ? [``, `**Prior occurrences:**`, ...links] : []),
+  ].join("\n");
+
+  return {
+    summary: {
+      one_liner,
+      rationale: `Same error signature already failing on ${v.base_branch ?? "the base branch"} or unrelated PRs.`,
+      risk: "low",
+      confidence: 0,
+      references: [],
+    },
+    changes: [],
+    tool_invocations: [],
+    policy: { autoSuggestionEligible: false, reason: "Pre-existing failure: no code change proposed." },
+    reviewComments: [],
+    summaryMarkdown,
+  };
+}
+
+/* ============================ Prior solutions ============================ */
+
+type FixCandidate = {
+  id: number;
+  failure_id: number | null;
+  repo_owner: string;
+  repo_name: string;
+  pr_number: number | null;
+  head_sha: string | null;
+  summary_one_liner: string | null;
+  rationale: string | null;
+  changes_json?: unknown;
+  summary_json?: unknown;
+  created_at: string | Date;
+  outcome?: RecommendationOutcome | null;
+  error_signature_v1?: string | null;
+  error_signature_v2?: string | null;
+  _distance?: number | string | null;
+};
+
+function confidenceOf(summaryJson: unknown): number {
+  try {
+    const v = typeof summaryJson === "string" ? JSON.parse(summaryJson) : summaryJson;
+    const c = Number((v as { confidence?: unknown } | null)?.confidence);
+    return Number.isFinite(c) ? Math.max(0, Math.min(1, c)) : 0;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Hybrid rank for a prior fix: vector similarity blended with exact
+ * signature matches, recency, review outcome and the fix's confidence.
+ */
+export function scoreSolution(
+  c: FixCandidate,
+  ctx: { sigV1: string | null; sigV2: string | null; now?: number }
+): { similarity: number; score: number; breakdown: SolutionScoreBreakdown } {
+  const dist = c._distance == null ? 1 : Number(c._distance);
+  const similarity = Math.max(0, Math.min(1, 1 - Math.max(0, Math.min(dist, 1))));
+
+  const match_on =
+    ctx.sigV1 && c.error_signature_v1 === ctx.sigV1 ? "v1" :
+    ctx.sigV2 && c.error_signature_v2 === ctx.sigV2 ? "v2" : null;
+
+  const created = new Date(c.created_at).getTime();
+  const age_days = Number.isFinite(created) ? Math.max(0, ((ctx.now ?? Date.now()) - created) / 86_400_000) : 0;
+
+  const breakdown: SolutionScoreBreakdown = {
+    vector: W_VECTOR * similarity,
+    signature: W_SIGNATURE * (match_on === "v1" ? 1 : match_on === "v2" ? 0.7 : 0),
+    recency: W_RECENCY * Math.pow(0.5, age_days / RECENCY_HALF_LIFE_DAYS),
+    outcome: c.outcome === "accepted" ? W_OUTCOME : c.outcome === "rejected" ? -W_OUTCOME : 0,
+    confidence: W_CONFIDENCE * confidenceOf(c.summary_json),
+    match_on,
+    age_days: Math.round(age_days * 10) / 10,
+  };
+  const score =
+    breakdown.vector + breakdown.signature + breakdown.recency + breakdown.outcome + breakdown.confidence;
+
+  return { similarity, score: Math.round(score * 1000) / 1000, breakdown };
+}
+
+/**
+ * Candidates = nearest fixes by content vector ∪ fixes whose failure shares
+ * our signature (those may not be near in embedding space), re-ranked by
+ * scoreSolution.
+ */
+async function findSimilarSolutions(p: {
+  scope: ScopeContext;
+  query: string;
+  sigV1: string | null;
+  sigV2: string | null;
+  exclude_failure_id: number | null;
+}): Promise<AnalysisOutput["similar_solutions"]> {
+  const inScope = knowledgeScopeSql("r", p.scope);
+  const cols = `
+    r.id, r.failure_id, r.repo_owner, r.repo_name, r.pr_number, r.head_sha, r.summary_one_liner, r.rationale,
+    r.changes_json, r.summary_json, r.created_at, r.outcome,
+    bf.error_signature_v1, bf.error_signature_v2`;
+
+  const byVector = (await sequelize.query(
+    `
+    SELECT ${cols},
+           VEC_EMBED_COSINE_DISTANCE(r.content_vector, :q) AS _distance
+    FROM fix_recommendations r
+    LEFT JOIN build_failures bf ON bf.failure_id = r.failure_id
+    WHERE ${inScope.sql}
+    ORDER BY _distance ASC
+    LIMIT :pool
+    `,
+    {
+      replacements: { q: p.query, pool: SOLUTION_POOL, ...inScope.replacements },
+      type: QueryTypes.SELECT,
+    }
+  )) as FixCandidate[];
+
+  let bySignature: FixCandidate[] = [];
+  if (p.sigV1 || p.sigV2) {
+    bySignature = (await sequelize.query(
+      `
+      SELECT ${cols},
+             VEC_EMBED_COSINE_DISTANCE(r.content_vector, :q) AS _distance
+      FROM fix_recommendations r
+      JOIN build_failures bf ON bf.failure_id = r.failure_id
+      WHERE ${inScope.sql}
+        AND (bf.error_signature_v1 = :v1 OR bf.error_signature_v2 = :v2)
+      ORDER BY r.created_at DESC
+      LIMIT :pool
+      `,
+      {
+        replacements: {
+          q: p.query, v1: p.sigV1 ?? "", v2: p.sigV2 ?? "", pool: SOLUTION_POOL,
+          ...inScope.replacements,
+        },
+        type: QueryTypes.SELECT,
+      }
+    )) as FixCandidate[];
+  }
+
+  const now = Date.now();
+  const seen = new Set<number>();
+  return [...byVector, ...bySignature]
+    .filter((c) => {
+      if (seen.has(c.id) || (p.exclude_failure_id != null && c.failure_id === p.exclude_failure_id)) return false;
+      seen.add(c.id);
+      return true;
+    })
+    .map((c) => {
+      const { similarity, score, breakdown } = scoreSolution(c, { sigV1: p.sigV1, sigV2: p.sigV2, now });
+      return {
+        id: c.id,
+        failure_id: c.failure_id,
+        pr_number: c.pr_number,
+        head_sha: c.head_sha,
+        summary_one_liner: c.summary_one_liner,
+        rationale: c.rationale,
+        changes_json: c.changes_json,
+        created_at: c.created_at,
+        similarity,
+        outcome: c.outcome ?? "pending",
+        score,
+        score_breakdown: breakdown,
+        provenance: provenanceOf(c, p.scope),
+        source_repo: `${c.repo_owner}/${c.repo_name}`,
+      };
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, SOLUTION_TOP_K);
+}
+
 /* ============================== tiny helper ============================== */
 
-function toStructured(sig: string, p: unknown): StructuredAnalysis {
-  const v = AnalysisSchema.parse(p);
+/** Structured fields from parser findings (first finding in log order leads) */
+function fromFindings(sig: string, p: ParsedLog): StructuredAnalysis {
+  const findings = p.findings.slice(0, MAX_FINDINGS);
+  const first = findings[0];
+  const located = findings.find((f) => f.file);
+  const test = findings.find((f) => f.test);
   return {
     error_signature: sig,
-    error_class: v.error_class ?? "",
-    message: v.message ?? "",
-    file_hint: v.file_hint ?? "",
-    failing_test: v.failing_test ?? "",
-    keywords: Array.isArray(v.keywords) ? v.keywords : [],
+    error_class: first?.error_class ?? "",
+    message: first?.message ?? "",
+    file_hint: located?.file ?? "",
+    failing_test: test?.test ?? "",
+    keywords: [...new Set(findings.map((f) => f.error_class))],
+    findings,
+    parsers: p.parsers,
+  };
+}
+
+function parseFailingTests(json: string | null | undefined): FailingTestCase[] {
+  if (!json) return [];
+  try {
+    const v = JSON.parse(json);
+    return Array.isArray(v) ? v : [];
+  } catch {
+    return [];
+  }
+}
+
+/** A failing case from a test report names the test (and usually its file) exactly */
+function withTestReports(base: StructuredAnalysis, tests: FailingTestCase[]): StructuredAnalysis {
+  const t = tests[0];
+  if (!t) return base;
+  return {
+    ...base,
+    failing_test: (t.classname && !t.name.startsWith(t.classname) ? `${t.classname}.${t.name}` : t.name) || base.failing_test,
+    file_hint: t.file ?? base.file_hint,
+    message: base.message || t.message,
+  };
+}
+
+/** Parser values win; the LLM's answer only fills empty fields */
+function fillGaps(base: StructuredAnalysis, v: LlmAnalysis): StructuredAnalysis {
+  return {
+    ...base,
+    error_class: base.error_class || (v.error_class ?? ""),
+    message: base.message || (v.message ?? ""),
+    file_hint: base.file_hint || (v.file_hint ?? ""),
+    failing_test: base.failing_test || (v.failing_test ?? ""),
+    keywords: [...new Set([...base.keywords, ...(Array.isArray(v.keywords) ? v.keywords : [])])],
   };
 }
@@ -0,0 +1,319 @@
+import type { Octokit } from "octokit";
+
+import {
+  BuildFailure,
+  FixRecommendation,
+  IgnoredSignature,
+  latestFailureForPR,
+  type BuildFailureRow,
+} from "@/lib/tidb";
+import { redactSecrets, tailLines } from "@/lib/text";
+import { analyzeFailure, type AnalysisOutput } from "@/agents/analysis";
+
+/**
+ * ChatOps: `/resolvci <command>` in a PR comment (conversation or review
+ * thread), from users with write access to the repo.
+ *
+ *   /resolvci retry               re-run the graph on the PR's latest failure
+ *   /resolvci explain             reply with a deeper diagnosis of it
+ *   /resolvci ignore <signature>  mute that error signature for the repo
+ *
+ * Every command answers with a reaction and/or a reply.
+ */
+
+const DEBUG = process.env.DEBUG_CHATOPS === "1";
+const SIGNATURE_DISPLAY_LEN = 12;
+const EXPLAIN_LOG_LINES = 40;
+
+export type ChatOpsCommand =
+  | { name: "retry" | "explain" }
+  | { name: "ignore"; signature: string | null }
+  | { name: "unknown"; raw: string };
+
+export type ChatOpsContext = {
+  owner: string;
+  repo: string;
+  pr_number: number;
+  comment_id: number;
+  comment_kind: "issue_comment" | "pull_request_review_comment";
+  actor: string;
+};
+
+type Reaction = "+1" | "-1" | "rocket" | "eyes" | "confused";
+
+const USAGE = [
+  "**ResolvCI commands**",
+  "",
+  "- `/resolvci retry` — re-run the analysis on the failure at this PR's head",
+  "- `/resolvci explain` — post a deeper diagnosis of it",
+  "- `/resolvci ignore <signature>` — stop reviewing failures with this error signature",
+].join("\n");
+
+/* ============================== Parsing ============================== */
+
+/** First `/resolvci …` line of a comment, or null when the comment isn't a command */
+export function parseChatOpsCommand(body: string | null | undefined): ChatOpsCommand | null {
+  const m = /^[ \t]*\/resolvci\b[ \t]*(.*)$/im.exec(body ?? "");
+  if (!m) return null;
+
+  const [name = "", ...args] = m[1].trim().split(/\s+/).filter(Boolean);
+  switch (name.toLowerCase()) {
+    case "retry":
+    case "explain":
+      return { name: name.toLowerCase() as "retry" | "explain" };
+    case "ignore": {
+      const sig = (args[0] ?? "").replace(/`/g, "").toLowerCase();
+      return { name: "ignore", signature: /^[0-9a-f]{8,40}$/.test(sig) ? sig : null };
+    }
+    default:
+      return { name: "unknown", raw: m[1].trim() };
+  }
+}
+
+/** Short form shown in reviews; `/resolvci ignore` accepts it (prefix match) */
+export function shortSignature(sig: string | null | undefined) {
+  return sig ? sig.slice(0, SIGNATURE_DISPLAY_LEN) : null;
+}
+
+/** Footer appended to posted summaries so users can quote the signature */
+export function signatureFooter(sig: string | null | undefined) {
+  const short = shortSignature(sig);
+  return short
+    ? `<sub>Error signature \`${short}\` · reply \`/resolvci ignore ${short}\` to stop reviews for it</sub>`
+    : "";
+}
+
+/* ============================== GitHub I/O ============================== */
+
+/** Write access = admin, maintain or write (maintain reports as "write") */
+export async function hasWriteAccess(octo: Octokit, owner: string, repo: string, username: string) {
+  try {
+    const { data } = await octo.rest.repos.getCollaboratorPermissionLevel({ owner, repo, username });
+    return data.permission === "admin" || data.permission === "write";
+  } catch (e) {
+    if (DEBUG) console.log("[ChatOps] permission lookup failed:", username, e);
+    return false; // not a collaborator (404) → no access
+  }
+}
+
+async function react(octo: Octokit, ctx: ChatOpsContext, content: Reaction) {
+  try {
+    if (ctx.comment_kind === "pull_request_review_comment") {
+      await octo.rest.reactions.createForPullRequestReviewComment({
+        owner: ctx.owner, repo: ctx.repo, comment_id: ctx.comment_id, content,
+      });
+    } else {
+      await octo.rest.reactions.createForIssueComment({
+        owner: ctx.owner, repo: ctx.repo, comment_id: ctx.comment_id, content,
+      });
+    }
+  } catch (e) {
+    console.warn("[ChatOps] reaction failed:", e);
+  }
+}
+
+/** Reply in the review thread for review comments, else on the PR conversation */
+async function reply(octo: Octokit, ctx: ChatOpsContext, body: string) {
+  if (ctx.comment_kind === "pull_request_review_comment") {
+    await octo.rest.pulls.createReplyForReviewComment({
+      owner: ctx.owner, repo: ctx.repo, pull_number: ctx.pr_number, comment_id: ctx.comment_id, body,
+    });
+  } else {
+    await octo.rest.issues.createComment({
+      owner: ctx.owner, repo: ctx.repo, issue_number: ctx.pr_number, body,
+    });
+  }
+}
+
+/* ============================== Rendering ============================== */
+
+type StepSummary = { name: string; conclusion: string | null };
+type JobSummary = { name: string; conclusion: string | null; steps?: StepSummary[] };
+
+function failingStepsMarkdown(logStepsJson: string | null) {
+  let jobs: JobSummary[] = [];
+  try {
+    jobs = logStepsJson ? JSON.parse(logStepsJson) : [];
+  } catch {
+    return "";
+  }
+  const lines = jobs
+    .filter((j) => j.conclusion && j.conclusion !== "success" && j.conclusion !== "skipped")
+    .map((j) => {
+      const step = (j.steps ?? []).find((s) => s.conclusion === "failure");
+      return `- \`${j.name}\`${step ? ` → step \`${step.name}\`` : ""} (${j.conclusion})`;
+    });
+  return lines.join("\n");
+}
+
+function renderExplanation(
+  f: BuildFailureRow,
+  a: AnalysisOutput,
+  rec: { summary_one_liner: string | null; rationale: string | null } | null
+) {
+  const s = a.structured;
+  const sig = f.error_signature_v2 ?? f.error_signature_v1;
+  const facts = [
+    s.error_class && `**Error class:** \`${s.error_class}\``,
+    s.message && `**Message:** ${s.message}`,
+    s.failing_test && `**Failing test:** \`${s.failing_test}\``,
+    s.file_hint && `**Likely file:** \`${s.file_hint}\``,
+    s.keywords.length && `**Keywords:** ${s.keywords.map((k) => `\`${k}\``).join(", ")}`,
+  ].filter(Boolean);
+
+  const blocks: string[] = [
+    `**ResolvCI — diagnosis** for \`${f.commit_sha.slice(0, 7)}\``,
+    facts.join("\n"),
+  ];
+
+  if (a.items.length) {
+    blocks.push(
+      "**Failures:**\n" +
+        a.items
+          .map((x) => {
+            const where = x.file ? ` at \`${x.file}${x.line ? `:${x.line}` : ""}\`` : "";
+            const fixes = x.similar_solutions.length ? ` (${x.similar_solutions.length} similar past fix(es))` : "";
+            return `- **${x.id}** \`${x.error_class || "error"}\`${x.test ? ` in \`${x.test}\`` : ""}${where}${fixes}`;
+          })
+          .join("\n")
+    );
+  }
+
+  const pre = a.preexisting;
+  if (pre?.preexisting) {
+    const where = [
+      pre.base_failures && `on \`${pre.base_branch ?? "the base branch"}\` (${pre.base_failures}×)`,
+      pre.other_prs && `on ${pre.other_prs} other PR(s)`,
+    ].filter(Boolean).join(" and ");
+    blocks.push(`**Pre-existing:** the same error also fails ${where} — probably not caused by this PR.`);
+  }
+
+  const steps = failingStepsMarkdown(f.log_steps_json);
+  if (steps) blocks.push(`**Failing jobs:**\n${steps}`);
+
+  const seen = a.similar_failures.length + a.similar_by_tail.length;
+  if (seen) {
+    blocks.push(
+      `**Seen before:** ${a.similar_failures.length} failure(s) with the same signature, ` +
+        `${a.similar_by_tail.length} with a similar log.`
+    );
+  }
+
+  const prior = a.similar_solutions.slice(0, 3).filter((x) => x.summary_one_liner);
+  if (prior.length) {
+    blocks.push(
+      "**Similar past fixes:**\n" +
+        prior
+          .map((x) => {
+            const verdict = x.outcome === "accepted" ? ", accepted" : x.outcome === "rejected" ? ", rejected" : "";
+            const from = x.provenance === "same_repo" ? "" : `, from \`${x.source_repo}\``;
+            return `- ${x.summary_one_liner} (${Math.round(x.similarity * 100)}% similar${verdict}${from})`;
+          })
+          .join("\n")
+    );
+  }
+
+  if (rec?.summary_one_liner) {
+    blocks.push(`**Current proposal:** ${rec.summary_one_liner}${rec.rationale ? `\n\n${rec.rationale}` : ""}`);
+  }
+
+  const excerpt = tailLines(redactSecrets(a.window), EXPLAIN_LOG_LINES).trim();
+  if (excerpt) {
+    blocks.push(`<details><summary>Log excerpt</summary>\n\n\`\`\`text\n${excerpt}\n\`\`\`\n</details>`);
+  }
+
+  const footer = signatureFooter(sig);
+  if (footer) blocks.push(footer);
+  return blocks.join("\n\n");
+}
+
+/* ============================== Commands ============================== */
+
+export type ChatOpsResult = { ok: boolean; command: string; detail?: string };
+
+/**
+ * Run a parsed command for `ctx.actor`. Permission is checked here so every
+ * entry point gets it. `requestGraphRun` kicks the analysis queue.
+ */
+export async function runChatOpsCommand(
+  octo: Octokit,
+  ctx: ChatOpsContext,
+  cmd: ChatOpsCommand,
+  requestGraphRun: () => void
+): Promise<ChatOpsResult> {
+  if (!(await hasWriteAccess(octo, ctx.owner, ctx.repo, ctx.actor))) {
+    await react(octo, ctx, "-1");
+    return { ok: false, command: cmd.name, detail: "forbidden" };
+  }
+
+  if (cmd.name === "unknown") {
+    await react(octo, ctx, "confused");
+    await reply(octo, ctx, `Unknown command \`${cmd.raw || "(empty)"}\`.\n\n${USAGE}`);
+    return { ok: false, command: cmd.name, detail: cmd.raw };
+  }
+
+  if (cmd.name === "ignore" && !cmd.signature) {
+    await react(octo, ctx, "confused");
+    await reply(octo, ctx, `\`/resolvci ignore\` needs an error signature (8–40 hex chars).\n\n${USAGE}`);
+    return { ok: false, command: cmd.name, detail: "missing signature" };
+  }
+
+  if (cmd.name === "ignore") {
+    await IgnoredSignature.findOrCreate({
+      where: { repo_owner: ctx.owner, repo_name: ctx.repo, signature: cmd.signature },
+      defaults: { created_by: ctx.actor },
+    });
+    await react(octo, ctx, "+1");
+    return { ok: true, command: cmd.name, detail: cmd.signature! };
+  }
+
+  // Only the PR's current head counts: older heads are stale, whatever their status
+  const { data: pr } = await octo.rest.pulls.get({ owner: ctx.owner, repo: ctx.repo, pull_number: ctx.pr_number });
+  const row = await latestFailureForPR(ctx.owner, ctx.repo, ctx.pr_number, pr.head.sha);
+  if (!row) {
+    await react(octo, ctx, "confused");
+    await reply(
+      octo,
+      ctx,
+      `ResolvCI has no recorded build failure for the current head (\`${pr.head.sha.slice(0, 7)}\`) of this pull request yet.`
+    );
+    return { ok: false, command: cmd.name, detail: "no failure" };
+  }
+  const f = row.toJSON() as BuildFailureRow;
+
+  if (cmd.name === "retry") {
+    if (f.status === "analyzing") {
+      await react(octo, ctx, "eyes");
+      return { ok: true, command: cmd.name, detail: "already analyzing" };
+    }
+    await BuildFailure.update(
+      { status: "new", attempt_count: 0, last_error: null, claimed_by: null, lease_expires_at: null },
+      { where: { failure_id: f.failure_id } }
+    );
+    requestGraphRun();
+    await react(octo, ctx, "rocket");
+    return { ok: true, command: cmd.name, detail: `failure ${f.failure_id}` };
+  }
+
+  // explain
+  await react(octo, ctx, "eyes");
+  const analysis = await analyzeFailure({
+    repo_owner: f.repo_owner,
+    repo_name: f.repo_name,
+    pr_number: f.pr_number,
+    commit_sha: f.commit_sha,
+    log_content: f.log_content,
+    failure_id: f.failure_id,
+    messages: [],
+  });
+  const rec = await FixRecommendation.findOne({
+    where: { failure_id: f.failure_id },
+    order: [["id", "DESC"]],
+  });
+  await reply(
+    octo,
+    ctx,
+    renderExplanation(f, analysis, (rec?.toJSON() as { summary_one_liner: string | null; rationale: string | null }) ?? null)
+  );
+  return { ok: true, command: cmd.name, detail: `failure ${f.failure_id}` };
+}
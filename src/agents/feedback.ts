@@ -0,0 +1,259 @@
+import type { Octokit } from "octokit";
+
+import { OutboundAction, FixRecommendation, type RecommendationOutcome } from "@/lib/tidb";
+import { getOctokitForContext } from "@/lib/github";
+import {
+  listRecommendationsForFeedback,
+  recordRecommendationOutcome,
+  markApplied,
+  type FeedbackCandidate,
+} from "@/agents/knowledge";
+import { CHECK_RUN_NAME, type GitHubRef, type OutboundRow } from "@/agents/actuator";
+
+/**
+ * Feedback: learn whether a posted recommendation helped.
+ *
+ * Signals (per recommendation):
+ *  - applied      a later commit on the PR contains a suggested `hunk.after`
+ *  - resolved     our inline review threads were resolved
+ *  - ci_passed    CI on the PR's newer head went green
+ *  - reactions    👍 / 👎 from humans on what we posted
+ *
+ * They fold into a score → outcome (accepted / rejected / pending), stored on
+ * fix_recommendations and used by Analysis to rank prior fixes.
+ */
+
+const DEBUG = process.env.DEBUG_FEEDBACK === "1";
+const WINDOW_DAYS = Number(process.env.FEEDBACK_WINDOW_DAYS ?? "14");
+const RECHECK_MS = Number(process.env.FEEDBACK_RECHECK_MS ?? "900000");
+const MAX_CHANGES_CHECKED = 10;
+
+// Score weights and thresholds
+const W_APPLIED = 3;
+const W_RESOLVED = 1;
+const W_CI_PASSED = 1;
+const W_REACTION = 2;
+const ACCEPT_AT = 2;
+const REJECT_AT = -2;
+
+export type FeedbackSignals = {
+  head_sha: string | null;        // PR head when checked
+  applied_changes: number;
+  total_changes: number;
+  threads_resolved: number;
+  ci_passed: boolean | null;      // null: no newer head yet, or CI still running
+  thumbs_up: number;
+  thumbs_down: number;
+};
+
+/* ============================== Scoring ============================== */
+
+export function scoreFeedback(s: FeedbackSignals): { score: number; outcome: RecommendationOutcome } {
+  const score =
+    (s.applied_changes > 0 ? W_APPLIED : 0) +
+    (s.threads_resolved > 0 ? W_RESOLVED : 0) +
+    (s.ci_passed ? W_CI_PASSED : 0) +
+    W_REACTION * (s.thumbs_up - s.thumbs_down);
+
+  const outcome: RecommendationOutcome =
+    score >= ACCEPT_AT ? "accepted" : score <= REJECT_AT ? "rejected" : "pending";
+  return { score, outcome };
+}
+
+/* ============================== Signals ============================== */
+
+/** Whitespace-insensitive view of a code block */
+const squash = (s: string) =>
+  (s || "")
+    .split("\n")
+    .map((ln) => ln.trim())
+    .filter(Boolean)
+    .join("\n");
+
+async function fileAt(octo: Octokit, owner: string, repo: string, path: string, ref: string) {
+  try {
+    const { data } = await octo.rest.repos.getContent({ owner, repo, path, ref });
+    if (Array.isArray(data) || data.type !== "file" || !("content" in data)) return "";
+    return Buffer.from(data.content, "base64").toString("utf8");
+  } catch {
+    return ""; // deleted/renamed → not applied
+  }
+}
+
+/** Changes whose proposed text is new at `head` compared with the reviewed commit */
+async function countAppliedChanges(
+  octo: Octokit,
+  rec: FeedbackCandidate,
+  head: string
+): Promise<{ applied: number; total: number }> {
+  const fixes = rec.changes
+    .filter((c) => c.type !== "diagnosis" && !c.validation?.isNoop && squash(c.hunk?.after ?? ""))
+    .slice(0, MAX_CHANGES_CHECKED);
+  if (!rec.head_sha || head === rec.head_sha) return { applied: 0, total: fixes.length };
+
+  let applied = 0;
+  for (const c of fixes) {
+    const after = squash(c.hunk.after);
+    const [before, now] = await Promise.all([
+      fileAt(octo, rec.repo_owner, rec.repo_name, c.path, rec.head_sha),
+      fileAt(octo, rec.repo_owner, rec.repo_name, c.path, head),
+    ]);
+    if (squash(now).includes(after) && !squash(before).includes(after)) applied++;
+  }
+  return { applied, total: fixes.length };
+}
+
+/** Resolved review threads that start with one of our inline comments */
+async function countResolvedThreads(octo: Octokit, rec: FeedbackCandidate, commentIds: number[]) {
+  if (!commentIds.length || rec.pr_number == null) return 0;
+  type Threads = {
+    repository: {
+      pullRequest: {
+        reviewThreads: {
+          nodes: Array<{ isResolved: boolean; comments: { nodes: Array<{ databaseId: number | null }> } }>;
+        };
+      } | null;
+    } | null;
+  };
+  const data = await octo.graphql<Threads>(
+    `query($owner: String!, $repo: String!, $pr: Int!) {
+      repository(owner: $owner, name: $repo) {
+        pullRequest(number: $pr) {
+          reviewThreads(first: 100) {
+            nodes { isResolved comments(first: 1) { nodes { databaseId } } }
+          }
+        }
+      }
+    }`,
+    { owner: rec.repo_owner, repo: rec.repo_name, pr: rec.pr_number }
+  );
+  const ours = new Set(commentIds);
+  return (data.repository?.pullRequest?.reviewThreads.nodes ?? []).filter(
+    (t) => t.isResolved && ours.has(t.comments.nodes[0]?.databaseId ?? -1)
+  ).length;
+}
+
+/** Did CI on the newer head pass? (our own advisory check run excluded) */
+async function ciPassed(octo: Octokit, rec: FeedbackCandidate, head: string): Promise<boolean | null> {
+  if (!rec.head_sha || head === rec.head_sha) return null;
+  const { data } = await octo.rest.checks.listForRef({
+    owner: rec.repo_owner, repo: rec.repo_name, ref: head, per_page: 100,
+  });
+  const runs = data.check_runs.filter((r) => r.name !== CHECK_RUN_NAME);
+  if (!runs.length || runs.some((r) => r.status !== "completed")) return null;
+  return runs.every((r) => ["success", "neutral", "skipped"].includes(r.conclusion ?? ""));
+}
+
+/** 👍/👎 from humans on whatever we posted */
+async function countReactions(octo: Octokit, rec: FeedbackCandidate, type: string, ref: GitHubRef) {
+  const owner = rec.repo_owner;
+  const repo = rec.repo_name;
+  const lists: Array<Array<{ content: string; user: { type?: string } | null }>> = [];
+
+  for (const comment_id of ref.comment_ids ?? []) {
+    const { data } = await octo.rest.reactions.listForPullRequestReviewComment({ owner, repo, comment_id, per_page: 100 });
+    lists.push(data);
+  }
+  if (type === "commit_comment" && ref.comment_id) {
+    const { data } = await octo.rest.reactions.listForCommitComment({ owner, repo, comment_id: ref.comment_id, per_page: 100 });
+    lists.push(data);
+  }
+  if (type === "issue" && ref.issue_number) {
+    const { data } = await octo.rest.reactions.listForIssue({ owner, repo, issue_number: ref.issue_number, per_page: 100 });
+    lists.push(data);
+  }
+
+  const human = lists.flat().filter((r) => r.user?.type !== "Bot");
+  return {
+    up: human.filter((r) => r.content === "+1").length,
+    down: human.filter((r) => r.content === "-1").length,
+  };
+}
+
+/** Gather every signal for one recommendation */
+export async function collectFeedbackSignals(octo: Octokit, rec: FeedbackCandidate): Promise<FeedbackSignals> {
+  const actions = rec.failure_id
+    ? (await OutboundAction.findAll({ where: { failure_id: rec.failure_id, status: "dispatched" } })).map(
+        (a) => a.toJSON() as OutboundRow
+      )
+    : [];
+
+  let head: string | null = null;
+  if (rec.pr_number != null) {
+    const { data: pr } = await octo.rest.pulls.get({
+      owner: rec.repo_owner, repo: rec.repo_name, pull_number: rec.pr_number,
+    });
+    head = pr.head.sha;
+  }
+
+  const signals: FeedbackSignals = {
+    head_sha: head,
+    applied_changes: 0,
+    total_changes: 0,
+    threads_resolved: 0,
+    ci_passed: null,
+    thumbs_up: 0,
+    thumbs_down: 0,
+  };
+
+  if (head) {
+    const { applied, total } = await countAppliedChanges(octo, rec, head);
+    signals.applied_changes = applied;
+    signals.total_changes = total;
+    signals.ci_passed = await ciPassed(octo, rec, head);
+  }
+
+  for (const a of actions) {
+    let ref: GitHubRef = {};
+    try {
+      ref = a.github_ref_json ? JSON.parse(a.github_ref_json) : {};
+    } catch {
+      continue;
+    }
+    signals.threads_resolved += await countResolvedThreads(octo, rec, ref.comment_ids ?? []);
+    const { up, down } = await countReactions(octo, rec, a.action_type, ref);
+    signals.thumbs_up += up;
+    signals.thumbs_down += down;
+  }
+
+  return signals;
+}
+
+/* ============================== Batch ============================== */
+
+export type FeedbackResult = {
+  id: number;
+  ok: boolean;
+  outcome?: RecommendationOutcome;
+  score?: number;
+  error?: string;
+};
+
+/** Check a batch of recent recommendations and record their outcomes */
+export async function collectFeedback(limit: number): Promise<FeedbackResult[]> {
+  const recs = await listRecommendationsForFeedback({ windowDays: WINDOW_DAYS, recheckMs: RECHECK_MS, limit });
+  const results: FeedbackResult[] = [];
+
+  for (const rec of recs) {
+    try {
+      const octo = await getOctokitForContext(rec.repo_owner, rec.repo_name, rec.installation_id);
+      const signals = await collectFeedbackSignals(octo, rec);
+      const { score, outcome } = scoreFeedback(signals);
+
+      await recordRecommendationOutcome(rec.id, { outcome, score, signals });
+      if (signals.applied_changes > 0 && rec.failure_id) await markApplied(rec.failure_id);
+
+      if (DEBUG) console.log("[Feedback]", rec.id, outcome, score, signals);
+      results.push({ id: rec.id, ok: true, outcome, score });
+    } catch (e: unknown) {
+      let message: string = String(e)
+      if (e instanceof Error)
+        message = e?.message
+      console.warn("[Feedback] check failed for recommendation", rec.id, message);
+      // don't let one broken row hog every batch
+      await FixRecommendation.update({ outcome_checked_at: new Date() }, { where: { id: rec.id } }).catch(() => {});
+      results.push({ id: rec.id, ok: false, error: message });
+    }
+  }
+  return results;
+}
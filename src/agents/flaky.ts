@@ -0,0 +1,185 @@
+import { QueryTypes } from "sequelize";
+
+import { sequelize } from "@/lib/tidb";
+import type { SolutionsReturn } from "@/agents/solutions";
+
+/**
+ * Flakiness: is this failure just a flaky test we've seen before?
+ *
+ * Signals (per error signature, same repo, recent window):
+ *  - rerun passes   an earlier failure's run passed on re-run of the same
+ *                   commit (build_failures.rerun_passed, set by the webhook)
+ *  - spread         the signature failed on unrelated PRs / branches
+ *
+ * A likely-flaky failure gets a short note with prior occurrences instead of
+ * code suggestions (see the `triage` → `notice` path in graph.ts).
+ */
+
+const DEBUG = process.env.DEBUG_FLAKY === "1";
+const WINDOW_DAYS = Number(process.env.FLAKY_WINDOW_DAYS ?? "30");
+const MIN_RERUN_PASSES = Number(process.env.FLAKY_MIN_RERUN_PASSES ?? "1");
+const MIN_PRS = Number(process.env.FLAKY_MIN_PRS ?? "2");
+const MAX_HISTORY = 200;
+const MAX_LINKS = 5;
+
+export type FlakyOccurrence = {
+  failure_id: number;
+  pr_number: number | null;
+  head_branch: string | null;
+  commit_sha: string;
+  run_id: string | null;
+  run_attempt: number | null;
+  rerun_passed: boolean;
+  failure_timestamp: Date | string;
+  url: string;                  // the run when known, else the PR / commit
+};
+
+export type FlakySignals = {
+  occurrences: number;          // failures with this signature (incident leaders)
+  prs: number;                  // distinct PRs (or branches without a PR, for push builds) they hit
+  rerun_passes: number;         // distinct commits that later passed on re-run
+};
+
+export type FlakyVerdict = FlakySignals & {
+  likely_flaky: boolean;
+  signature: string;
+  prior: FlakyOccurrence[];     // most recent other occurrences, for links
+};
+
+/* ============================== Scoring ============================== */
+
+/** Flaky = passed on re-run of the same commit, and not confined to one PR */
+export function isLikelyFlaky(s: FlakySignals): boolean {
+  return s.rerun_passes >= MIN_RERUN_PASSES && s.prs >= MIN_PRS;
+}
+
+/* ============================== History ============================== */
+
+/** Link for a past failure: its run when known, else the PR / commit */
+export function occurrenceUrl(
+  owner: string,
+  repo: string,
+  o: { run_id: string | null; run_attempt: number | null; pr_number: number | null; commit_sha: string }
+) {
+  const base = `https://github.com/${owner}/${repo}`;
+  if (o.run_id) return `${base}/actions/runs/${o.run_id}${o.run_attempt ? `/attempts/${o.run_attempt}` : ""}`;
+  if (o.pr_number != null) return `${base}/pull/${o.pr_number}`;
+  return `${base}/commit/${o.commit_sha}`;
+}
+
+/**
+ * Correlate the failure's signature with its history in the repo: rerun
+ * passes and the PRs it showed up on. Returns null without a signature.
+ */
+export async function assessFlakiness(f: {
+  failure_id: number;
+  repo_owner: string;
+  repo_name: string;
+  pr_number: number | null;
+  head_branch?: string | null;
+  signature: string | null | undefined;
+}): Promise<FlakyVerdict | null> {
+  if (!f.signature) return null;
+
+  const rows = (await sequelize.query(
+    `
+    SELECT failure_id, pr_number, head_branch, commit_sha, run_id, run_attempt, rerun_passed, status, failure_timestamp
+    FROM build_failures
+    WHERE repo_owner = :owner
+      AND repo_name = :repo
+      AND (error_signature_v2 = :sig OR error_signature_v1 = :sig)
+      AND failure_timestamp >= :since
+    ORDER BY failure_id DESC
+    LIMIT :lim
+    `,
+    {
+      type: QueryTypes.SELECT,
+      replacements: {
+        owner: f.repo_owner,
+        repo: f.repo_name,
+        sig: f.signature,
+        since: new Date(Date.now() - WINDOW_DAYS * 86_400_000),
+        lim: MAX_HISTORY,
+      },
+    }
+  )) as Array<Omit<FlakyOccurrence, "url"> & { status: string }>;
+
+  // Coalesced rows are extra jobs of an incident; they only count for rerun passes
+  const leaders = rows.filter((r) => r.status !== "coalesced");
+  const self = { pr_number: f.pr_number, head_branch: f.head_branch ?? null };
+
+  // A PR's push builds run on its head branch: count them as that PR, not as another place
+  const prOfBranch = new Map<string, number>();
+  for (const r of [self, ...rows]) {
+    if (r.pr_number != null && r.head_branch) prOfBranch.set(r.head_branch, r.pr_number);
+  }
+  const where = (r: { pr_number: number | null; head_branch: string | null }) => {
+    const pr = r.pr_number ?? (r.head_branch ? prOfBranch.get(r.head_branch) : undefined);
+    return pr != null ? `pr:${pr}` : `branch:${r.head_branch ?? "?"}`;
+  };
+
+  const places = new Set(leaders.map(where));
+  places.add(where(self));
+
+  const signals: FlakySignals = {
+    occurrences: Math.max(1, leaders.length),
+    prs: places.size,
+    rerun_passes: new Set(rows.filter((r) => !!Number(r.rerun_passed)).map((r) => r.commit_sha)).size,
+  };
+
+  const prior = leaders
+    .filter((r) => Number(r.failure_id) !== f.failure_id)
+    .slice(0, MAX_LINKS)
+    .map((r) => {
+      const o = {
+        failure_id: Number(r.failure_id),
+        pr_number: r.pr_number,
+        head_branch: r.head_branch,
+        commit_sha: r.commit_sha,
+        run_id: r.run_id,
+        run_attempt: r.run_attempt,
+        rerun_passed: !!Number(r.rerun_passed),
+        failure_timestamp: r.failure_timestamp,
+      };
+      return { ...o, url: occurrenceUrl(f.repo_owner, f.repo_name, o) };
+    });
+
+  const verdict = { ...signals, likely_flaky: isLikelyFlaky(signals), signature: f.signature, prior };
+  if (DEBUG) console.log("[Flaky]", f.failure_id, verdict);
+  return verdict;
+}
+
+/* ============================== Notice ============================== */
+
+/** "Likely flaky" note in place of a fix: no changes, just prior occurrences */
+export function flakyNoticeSolution(v: FlakyVerdict): SolutionsReturn {
+  const one_liner = `likely flaky, seen ${v.occurrences} time(s) across ${v.prs} PR(s)`;
+  const links = v.prior.map((o) => {
+    const where = o.pr_number != null ? `PR #${o.pr_number}` : `\`${o.head_branch ?? "build"}\``;
+    const date = new Date(o.failure_timestamp).toISOString().slice(0, 10);
+    return `- [${where} @ \`${o.commit_sha.slice(0, 7)}\`](${o.url}) — ${date}${o.rerun_passed ? ", passed on re-run" : ""}`;
+  });
+
+  const summaryMarkdown = [
+    `**ResolvCI** — ${one_liner}`,
+    ``,
+    `This error has failed before and then passed when the same commit was re-run ` +
+      `(${v.rerun_passes} commit(s)), so no code change is suggested. Re-running the failed jobs is likely enough.`,
+    ...(links.length ? [``, `**Prior occurrences:**`, ...links] : []),
+  ].join("\n");
+
+  return {
+    summary: {
+      one_liner,
+      rationale: "Same error signature passed on re-run of an unchanged commit and failed on unrelated PRs.",
+      risk: "low",
+      confidence: 0,
+      references: [],
+    },
+    changes: [],
+    tool_invocations: [],
+    policy: { autoSuggestionEligible: false, reason: "Likely flaky: no code change proposed." },
+    reviewComments: [],
+    summaryMarkdown,
+  };
+}
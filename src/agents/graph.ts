@@ -1,10 +1,13 @@
 import { Annotation, StateGraph, START, END } from "@langchain/langgraph";
 import type { BaseMessage } from "@langchain/core/messages";
 
-import { analyzeFailure, AnalysisOutput } from "@/agents/analysis";
-import { solveFailure, type SolutionsOutput } from "@/agents/solutions";
-import { stageReviewOutboxFromSolution } from "@/agents/actuator";
+import { analyzeFailure, preexistingNoticeSolution, AnalysisOutput } from "@/agents/analysis";
+import { solveFailure, type SolutionsOutput, type SolutionsReturn } from "@/agents/solutions";
+import { stageReviewOutboxFromSolution, actuatorTargetFor, type ActuatorTarget } from "@/agents/actuator";
 import { recordSolutionArtifacts } from "@/agents/knowledge";
+import { assessFlakiness, flakyNoticeSolution, type FlakyVerdict } from "@/agents/flaky";
+import { verifySolution, applyVerification, VERIFY_ENABLED, type VerifyResult } from "@/agents/verify";
+import { lateIncidentMembers } from "@/lib/tidb";
 
 const TAU = Number(process.env.SOLUTIONS_CONFIDENCE_TAU ?? "0.80");
 const MAX_LOOPS = Number(process.env.SOLUTIONS_MAX_LOOPS ?? "3");
@@ -12,17 +15,24 @@ const MAX_LOOPS = Number(process.env.SOLUTIONS_MAX_LOOPS ?? "3");
 export type GraphInit = {
   repo_owner: string;
   repo_name: string;
-  pr_number: number;
+  pr_number: number | null;          // null for push/schedule builds (no PR)
   head_sha: string;
+  head_branch?: string | null;
+  target?: ActuatorTarget;           // defaults to actuatorTargetFor(pr_number)
   log_content: string;
   failure_id?: number;
   installation_id?: number | null;
+  error_signature?: string | null;   // surfaced in the review for `/resolvci ignore`
+  incident_members?: number[] | null; // member ids whose logs were analyzed; set → check for late joiners before staging
   insight_loops: number;
   messages: BaseMessage[];
   // optional channels:
+  flaky?: FlakyVerdict | null;
   analysis?: AnalysisOutput;
   solution?: SolutionsOutput;
+  verification?: VerifyResult | null;
   confidence?: number;
+  incident_grew?: boolean;           // late members joined: nothing was staged, the caller re-runs
 };
 
 /**
@@ -34,17 +44,24 @@ const GraphState = Annotation.Root({
   // Required inputs
   repo_owner: Annotation<string>(),
   repo_name: Annotation<string>(),
-  pr_number: Annotation<number>(),
+  pr_number: Annotation<number | null>(),
   head_sha: Annotation<string>(),
   log_content: Annotation<string>(),
 
   // Optional / derived along the run
+  head_branch: Annotation<string | null | undefined>(),
+  target: Annotation<ActuatorTarget | undefined>(),
   failure_id: Annotation<number | undefined>(),
   installation_id: Annotation<number | null | undefined>(),
+  error_signature: Annotation<string | null | undefined>(),
+  incident_members: Annotation<number[] | null | undefined>(),
+  incident_grew: Annotation<boolean | undefined>(),
 
   messages: Annotation<BaseMessage[]>(),
+  flaky: Annotation<FlakyVerdict | null | undefined>(),
   analysis: Annotation<AnalysisOutput>(),
   solution: Annotation<SolutionsOutput>(),
+  verification: Annotation<VerifyResult | null | undefined>(),
   confidence: Annotation<number | undefined>(),
   insight_loops: Annotation<number>(),
 });
@@ -52,11 +69,63 @@ const GraphState = Annotation.Root({
 // 👉 derive the TS state type from the annotation
 export type GState = typeof GraphState.State;
 
+/** Confident enough, or out of loops → post; else another insight loop */
+function nextAfterSolutions(s: GState): "diagnose" | "actuator" {
+  if ((s.confidence ?? 0) >= TAU) return "actuator";
+  if ((s.insight_loops ?? 0) >= MAX_LOOPS) return "actuator";
+  return "diagnose";
+}
+
+/** Did failures join this incident after its logs were gathered? Then staging now would leave them out */
+async function incidentGrew(s: GState): Promise<boolean> {
+  if (s.failure_id == null || !s.incident_members) return false;
+  const late = await lateIncidentMembers(s.failure_id, s.incident_members);
+  if (late.length) console.log(`[Graph] incident ${s.failure_id} grew by ${late.join(", ")}; not staging`);
+  return late.length > 0;
+}
+
 /** Build the graph with chaining so TS learns node names for addEdge(). */
 const builder = new StateGraph(GraphState)
   // Pass-through start (could do some post processing here)
   .addNode("ingestion", async () => ({}))
 
+  // Triage: a signature that passed on re-run and spans unrelated PRs is likely flaky
+  .addNode("triage", async (s) => {
+    if (s.failure_id == null) return { flaky: null };
+    try {
+      const flaky = await assessFlakiness({
+        failure_id: s.failure_id,
+        repo_owner: s.repo_owner,
+        repo_name: s.repo_name,
+        pr_number: s.pr_number,
+        head_branch: s.head_branch ?? null,
+        signature: s.error_signature ?? null,
+      });
+      return { flaky };
+    } catch (e) {
+      console.warn("[Graph:triage] flakiness check failed; analyzing normally:", e);
+      return { flaky: null };
+    }
+  })
+  // Notice: likely flaky / already failing on the base branch → short note with prior occurrences, no code suggestions
+  .addNode("notice", async (s) => {
+    if (await incidentGrew(s)) return { incident_grew: true };
+    await stageReviewOutboxFromSolution({
+      owner: s.repo_owner,
+      repo: s.repo_name,
+      target: s.target ?? actuatorTargetFor(s.pr_number),
+      head_sha: s.head_sha,
+      head_branch: s.head_branch ?? null,
+      solution: s.flaky?.likely_flaky
+        ? flakyNoticeSolution(s.flaky)
+        : preexistingNoticeSolution(s.analysis.preexisting!),
+      installation_id: s.installation_id ?? null,
+      error_signature: s.error_signature ?? null,
+      failure_id: s.failure_id ?? null,
+    });
+    return {};
+  })
+
   // Analysis: LLM structuring + similar failures + TiDB vector prior fixes
   .addNode("diagnose", async (s) => {
     const out = await analyzeFailure({
@@ -65,6 +134,7 @@ const builder = new StateGraph(GraphState)
       pr_number: s.pr_number,
       commit_sha: s.head_sha,
       log_content: s.log_content,
+      failure_id: s.failure_id ?? null,
       messages: s.messages,
     });
 
@@ -84,8 +154,10 @@ const builder = new StateGraph(GraphState)
         repo_name: s.repo_name,
         pr_number: s.pr_number,
         commit_sha: s.head_sha,              // head_sha/commit_sha
+        head_branch: s.head_branch ?? null,
         log_content: s.log_content,          // log_tail; pass the actual log content
         installation_id: s.installation_id ?? null,
+        verification: s.verification ?? null,
       },
       // pass the prior analysis block (shape matches Solutions’ expectations)
       s.analysis
@@ -100,15 +172,41 @@ const builder = new StateGraph(GraphState)
     };
   })
 
-// Actuator: stage a PR review via outbox (exactly-once). No direct writes here.
+  // Verify (optional): re-run the failing command in a sandbox with the fixes applied
+  .addNode("verify", async (s) => {
+    const verification = await verifySolution({
+      repo_owner: s.repo_owner,
+      repo_name: s.repo_name,
+      pr_number: s.pr_number ?? null,
+      commit_sha: s.head_sha,
+      installation_id: s.installation_id ?? null,
+      log_content: s.log_content,
+      analysis: s.analysis,
+      solution: s.solution as SolutionsReturn,
+    });
+    console.log(`[Graph:verify] ${verification.status} ${verification.command ?? ""} ${verification.reason ?? ""}`);
+
+    // A failure with loops left goes back for another attempt; keep the solution untouched until then
+    const retry = verification.status === "failed" && (s.insight_loops ?? 0) < MAX_LOOPS;
+    if (retry) return { verification };
+
+    const solution = applyVerification(s.solution as SolutionsReturn, verification);
+    return { verification, solution, confidence: solution.summary.confidence };
+  })
+
+// Actuator: stage a PR review (or, without a PR, a commit comment / issue) via outbox (exactly-once). No direct writes here.
   .addNode("actuator", async (s) => {
+    if (await incidentGrew(s)) return { incident_grew: true };
     await stageReviewOutboxFromSolution({
       owner: s.repo_owner,
       repo: s.repo_name,
-      pull_number: s.pr_number,
+      target: s.target ?? actuatorTargetFor(s.pr_number),
       head_sha: s.head_sha,
+      head_branch: s.head_branch ?? null,
       solution: s.solution,                 // this is SolutionsReturn
       installation_id: s.installation_id ?? null,
+      error_signature: s.error_signature ?? null,
+      failure_id: s.failure_id ?? null,
     });
     return {};
   })
@@ -126,19 +224,38 @@ const builder = new StateGraph(GraphState)
   })
   // Edges
   .addEdge(START, "ingestion")
-  .addEdge("ingestion", "diagnose")
+  .addEdge("ingestion", "triage")
+  .addConditionalEdges(
+    "triage",
+    (s) => (s.flaky?.likely_flaky ? "notice" : "diagnose"),
+    { notice: "notice", diagnose: "diagnose" }
+  )
+  .addEdge("notice", END)
 
-  .addEdge("diagnose", "solutions")
+  .addConditionalEdges(
+    "diagnose",
+    (s) => (s.analysis?.preexisting?.preexisting ? "notice" : "solutions"),
+    { notice: "notice", solutions: "solutions" }
+  )
   .addConditionalEdges(
     "solutions",
+    (s) => (VERIFY_ENABLED ? "verify" : nextAfterSolutions(s)),
+    { verify: "verify", diagnose: "diagnose", actuator: "actuator" }
+  )
+  .addConditionalEdges(
+    "verify",
     (s) => {
-      if ((s.confidence ?? 0) >= TAU) return "actuator";
-      if ((s.insight_loops ?? 0) >= MAX_LOOPS) return "actuator";
-      return "diagnose";
+      if (s.verification?.status === "passed") return "actuator";
+      if (s.verification?.status === "failed") return (s.insight_loops ?? 0) < MAX_LOOPS ? "diagnose" : "actuator";
+      return nextAfterSolutions(s);
     },
     { diagnose: "diagnose", actuator: "actuator" }
   )
-  .addEdge("actuator", "knowledge")
+  .addConditionalEdges(
+    "actuator",
+    (s) => (s.incident_grew ? END : "knowledge"),
+    { [END]: END, knowledge: "knowledge" }
+  )
   .addEdge("knowledge", END);
 
 // Compiled app
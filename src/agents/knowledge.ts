@@ -1,4 +1,5 @@
-import { sequelize, BuildFailure } from "@/lib/tidb";
+import { Op, QueryTypes, type WhereOptions } from "sequelize";
+import { sequelize, BuildFailure, type KnowledgeScope, type RecommendationOutcome } from "@/lib/tidb";
 import type { SolutionsReturn, SolutionsOutput } from "@/agents/solutions";
 import { jsonClamp } from "@/lib/text";
 import { normalizeSolution } from "@/lib/solution-utils";
@@ -8,7 +9,8 @@ import {
   FixRecommendationListItem,
   parseJson,
   ToolInvocation,
-  FixRecommendationListRowRaw
+  FixRecommendationListRowRaw,
+  FixChange,
 } from "@/types/fix_recommendation_list";
 
 
@@ -67,20 +69,22 @@ export async function recordSolutionArtifacts(p: PersistParams) {
 
   const t = await sequelize.transaction();
   try {
-    // 1) Update the failure row if present
+    // 1) Update the failure row if present (still ours: not superseded meanwhile)
     await BuildFailure.update(
       { status: "proposed" },
-      { where: { failure_id }, transaction: t }
+      { where: { failure_id, status: "analyzing" }, transaction: t }
     );
 
     // 2) Insert recommendation idempotently (no-op on duplicate)
     const q = `
       INSERT INTO fix_recommendations
-        (failure_id, repo_owner, repo_name, pr_number, head_sha,
+        (failure_id, repo_owner, repo_name, repo_private, pr_number, head_sha,
          summary_json, changes_json, policy_json, tool_inv_json, summary_md,
          summary_one_liner, rationale)
       VALUES
-        (:failure_id, :repo_owner, :repo_name, :pr_number, :head_sha,
+        (:failure_id, :repo_owner, :repo_name,
+         (SELECT bf.repo_private FROM build_failures bf WHERE bf.failure_id = :failure_id),
+         :pr_number, :head_sha,
          :summary_json, :changes_json, :policy_json, :tool_inv_json, :summary_md,
          :summary_one_liner, :rationale)
       ON DUPLICATE KEY UPDATE
@@ -125,6 +129,82 @@ export async function recordSolutionArtifacts(p: PersistParams) {
   }
 }
 
+/* ============================ Sharing scope ============================ */
+
+/** Where a retrieved failure/fix came from, relative to the repo being reviewed */
+export type Provenance = "same_repo" | "same_owner" | "global";
+
+export type ScopeContext = {
+  repo_owner: string;
+  repo_name: string;
+  scope: KnowledgeScope;
+  target_private: boolean; // unknown visibility counts as public here (shares less)
+};
+
+/**
+ * The row's source installation opted in to 'global' sharing too. Correlated
+ * on `qualifier.failure_id` (build_failures and fix_recommendations both have
+ * it), so the outer table must be named or aliased.
+ */
+function sharedGloballySql(qualifier: string) {
+  return `EXISTS (
+      SELECT 1 FROM build_failures ks_bf
+      JOIN installation_settings ks_is ON ks_is.installation_id = ks_bf.installation_id
+      WHERE ks_bf.failure_id = ${qualifier}.failure_id AND ks_is.knowledge_scope = 'global'
+    )`;
+}
+
+/**
+ * Sharing policy, in SQL over rows of table/alias `alias` (bound via `replacements`):
+ *  - the repo's own rows are always visible
+ *  - scope 'owner' adds the owner's other repos; private ones only when the
+ *    target is private too (a public PR never quotes private code)
+ *  - scope 'global' adds public repos of any owner whose installation chose
+ *    'global' as well (sharing is opt-in on both ends)
+ * Rows of unknown visibility (NULL) are treated as private.
+ */
+export function knowledgeScopeSql(alias: string, ctx: ScopeContext) {
+  const a = `${alias}.`;
+  const sql = `(
+    (${a}repo_owner = :ks_owner AND ${a}repo_name = :ks_repo)
+    OR (:ks_scope IN ('owner', 'global') AND ${a}repo_owner = :ks_owner
+        AND (${a}repo_private = 0 OR :ks_target_private = 1))
+    OR (:ks_scope = 'global' AND ${a}repo_private = 0 AND ${sharedGloballySql(alias)})
+  )`;
+  return {
+    sql,
+    replacements: {
+      ks_owner: ctx.repo_owner,
+      ks_repo: ctx.repo_name,
+      ks_scope: ctx.scope,
+      ks_target_private: ctx.target_private ? 1 : 0,
+    },
+  };
+}
+
+/** Same policy as `knowledgeScopeSql`, as a Sequelize `where` over build_failures */
+export function knowledgeScopeWhere(ctx: ScopeContext): WhereOptions {
+  const { repo_owner, repo_name, scope, target_private } = ctx;
+  const or: WhereOptions[] = [{ repo_owner, repo_name }];
+  if (scope === "owner" || scope === "global") {
+    or.push(target_private ? { repo_owner } : { repo_owner, repo_private: false });
+  }
+  if (scope === "global") {
+    or.push({
+      repo_private: false,
+      installation_id: {
+        [Op.in]: sequelize.literal("(SELECT installation_id FROM installation_settings WHERE knowledge_scope = 'global')"),
+      },
+    });
+  }
+  return { [Op.or]: or };
+}
+
+export function provenanceOf(row: { repo_owner: string; repo_name: string }, ctx: ScopeContext): Provenance {
+  if (row.repo_owner === ctx.repo_owner && row.repo_name === ctx.repo_name) return "same_repo";
+  return row.repo_owner === ctx.repo_owner ? "same_owner" : "global";
+}
+
 /* ============================= Read API ============================= */
 
 /** Most recent recommendations for a repo (JSON parsed for convenience). */
@@ -168,42 +248,43 @@ export async function getRecentRecommendations(opts: {
 
 /**
  * Semantic search over recommendations using TiDB auto-embedding.
- * If repo_owner/repo_name provided, it narrows to that repo.
+ * If repo_owner/repo_name provided, it narrows to what that repo may see under
+ * `scope` (default: the repo itself); otherwise only public repos of
+ * installations sharing globally are searched.
  */
 export async function searchRecommendationsSemantic(opts: {
   query: string;
   repo_owner?: string;
   repo_name?: string;
+  scope?: KnowledgeScope;
+  target_private?: boolean;
   limit?: number;
 }) {
   const { query, repo_owner, repo_name, limit = 5 } = opts;
 
-  const scoped = Boolean(repo_owner && repo_name);
-  const q = scoped
-    ? `
-      SELECT id, failure_id, pr_number, head_sha, created_at,
-             summary_one_liner, rationale, summary_md,
-             summary_json, changes_json, policy_json, tool_inv_json,
-             VEC_EMBED_COSINE_DISTANCE(content_vector, :q) AS _distance
-      FROM fix_recommendations
-      WHERE repo_owner = :owner AND repo_name = :repo
-      ORDER BY _distance
-      LIMIT :limit
-    `
-    : `
-      SELECT id, failure_id, pr_number, head_sha, created_at,
-             summary_one_liner, rationale, summary_md,
-             summary_json, changes_json, policy_json, tool_inv_json,
-             VEC_EMBED_COSINE_DISTANCE(content_vector, :q) AS _distance
-      FROM fix_recommendations
-      ORDER BY _distance
-      LIMIT :limit
-    `;
+  const filter =
+    repo_owner && repo_name
+      ? knowledgeScopeSql("fix_recommendations", {
+          repo_owner,
+          repo_name,
+          scope: opts.scope ?? "repo",
+          target_private: opts.target_private ?? false,
+        })
+      : { sql: `(repo_private = 0 AND ${sharedGloballySql("fix_recommendations")})`, replacements: {} };
+
+  const q = `
+    SELECT id, failure_id, pr_number, head_sha, created_at,
+           summary_one_liner, rationale, summary_md,
+           summary_json, changes_json, policy_json, tool_inv_json,
+           VEC_EMBED_COSINE_DISTANCE(content_vector, :q) AS _distance
+    FROM fix_recommendations
+    WHERE ${filter.sql}
+    ORDER BY _distance
+    LIMIT :limit
+  `;
 
   const [rows] = await sequelize.query(q, {
-    replacements: scoped
-      ? { q: query, owner: repo_owner, repo: repo_name, limit }
-      : { q: query, limit },
+    replacements: { q: query, limit, ...filter.replacements },
   });
 
   const items: FixRecommendationListItem[] = (rows as FixRecommendationListRowRaw[])
@@ -225,8 +306,78 @@ export async function searchRecommendationsSemantic(opts: {
   return items;
 }
 
-/** Optional: mark build failure as applied (after human confirms) */
+/** Mark a build failure as applied (its suggestion showed up in a later commit) */
 export async function markApplied(failure_id: number) {
-  await BuildFailure.update({ status: "applied" }, { where: { failure_id } });
+  await BuildFailure.update({ status: "applied" }, { where: { failure_id, status: "proposed" } });
+}
+
+/* ============================ Outcome API ============================ */
+
+/** A recommendation to (re)check for review feedback */
+export type FeedbackCandidate = {
+  id: number;
+  failure_id: number | null;
+  repo_owner: string;
+  repo_name: string;
+  pr_number: number | null;
+  head_sha: string | null;
+  installation_id: number | null;
+  outcome: RecommendationOutcome;
+  changes: FixChange[];
+};
+
+/**
+ * Recent recommendations due for a feedback check: created within
+ * `windowDays` and not checked in the last `recheckMs`. Oldest check first.
+ */
+export async function listRecommendationsForFeedback(opts: {
+  windowDays: number;
+  recheckMs: number;
+  limit: number;
+}): Promise<FeedbackCandidate[]> {
+  const now = Date.now();
+  const rows = (await sequelize.query(
+    `
+    SELECT r.id, r.failure_id, r.repo_owner, r.repo_name, r.pr_number, r.head_sha,
+           r.changes_json, r.outcome, bf.installation_id
+    FROM fix_recommendations r
+    LEFT JOIN build_failures bf ON bf.failure_id = r.failure_id
+    WHERE r.created_at >= :since
+      AND (r.outcome_checked_at IS NULL OR r.outcome_checked_at < :stale)
+    ORDER BY r.outcome_checked_at IS NOT NULL, r.outcome_checked_at ASC, r.id ASC
+    LIMIT :limit
+    `,
+    {
+      type: QueryTypes.SELECT,
+      replacements: {
+        since: new Date(now - opts.windowDays * 86_400_000),
+        stale: new Date(now - opts.recheckMs),
+        limit: opts.limit,
+      },
+    }
+  )) as Array<Omit<FeedbackCandidate, "changes"> & { changes_json: unknown }>;
+
+  return rows.map(({ changes_json, ...r }) => ({
+    ...r,
+    changes: parseJson<FixChangesJson>(changes_json) ?? [],
+  }));
 }
 
+/** Store the latest outcome + the signals behind it; outcome_at moves only on change */
+export async function recordRecommendationOutcome(
+  id: number,
+  r: { outcome: RecommendationOutcome; score: number; signals: unknown }
+) {
+  await sequelize.query(
+    `
+    UPDATE fix_recommendations
+    SET outcome_at = IF(outcome <> :outcome, NOW(), outcome_at),
+        outcome = :outcome,
+        outcome_score = :score,
+        outcome_signals_json = :signals,
+        outcome_checked_at = NOW()
+    WHERE id = :id
+    `,
+    { replacements: { id, outcome: r.outcome, score: r.score, signals: jsonClamp(r.signals, 20_000) } }
+  );
+}
@@ -14,8 +14,13 @@ import {
   getOctokitForRepo,
 } from "@/lib/github";
 import { tailLines } from "@/lib/text";
+import { rankCulpritHunks, type BlameLocation, type CulpritHunk } from "@/lib/diff";
+import { cleanLines, findLocations } from "@/lib/log-parsers/common";
+import { applyPatch, editForChange, editRange } from "@/lib/patch";
 import {ToolInvocation} from "@/types/fix_recommendation_list"
 import { AnalysisOutput } from "./analysis";
+import { itemChecklistMarkdown, NOT_IN_CHANGE_SET } from "@/lib/solution-utils";
+import type { VerifyResult } from "./verify";
 
 /* ============================== Config ============================== */
 
@@ -27,6 +32,10 @@ const TAU = Number(process.env.SOLUTIONS_CONFIDENCE_TAU ?? "0.80");
 const MAX_PER_TOOL_CALLS = Number(process.env.SOL_MAX_PER_TOOL_CALLS ?? "3");
 const MAX_PER_TOOL_MS    = Number(process.env.SOL_MAX_PER_TOOL_MS ?? "5000");
 
+// Blame the diff: changed hunks handed to the model, and the score needed to call one "introduced by this PR"
+const MAX_CULPRITS = 5;
+const CULPRIT_MIN_SCORE = Number(process.env.SOL_CULPRIT_MIN_SCORE ?? "0.5");
+
 /* enable logs with DEBUG_SOLUTIONS=1 */
 const DEBUG_SOL = process.env.DEBUG_SOLUTIONS === "1";
 
@@ -41,11 +50,38 @@ export type Change = {
   anchor: { line: number } | null;
   hunk: { after: string };
   language: string | null;
-  validation: { appliesCleanly: boolean; isNoop?: boolean };
+  validation: {
+    appliesCleanly: boolean;             // set by the patch engine (lib/patch.ts), not the model
+    isNoop?: boolean;
+    parses?: boolean | null;             // patched file parses; null → no parser / not checked
+    error?: string | null;               // why the patch didn't apply
+  };
+  diff?: string | null;                  // unified diff of the applied patch
+  span?: ChangeSpan | null;              // resolved head-file range the change covers
   type?: "fix" | "diagnosis";
   intent?: "insert_before" | "insert_after" | "replace" | null;
   explain?: string | null;
   match?: MatchHint| null;   // add this
+  item_id?: string | null;   // failure item (AnalysisOutput.items) this change addresses
+};
+
+/**
+ * Head-file lines a change covers (from `match.original`'s length and the
+ * intent): the block a `replace` rewrites, or the line an insert attaches to.
+ * `original` is those lines' current text. Review comments span it.
+ */
+export type ChangeSpan = {
+  start_line: number;
+  end_line: number;
+  original: string | null;
+};
+
+/** Per failure item: did we propose a fix for it, or only diagnose it? */
+export type SolutionItem = {
+  id: string;
+  title: string;
+  status: "addressed" | "diagnosed";
+  diagnosis: string;
 };
 
 
@@ -60,10 +96,12 @@ export type SolutionsOutput = {
   changes: Change[];                   // uses the nullable fields
   tool_invocations: ToolInvocation[];             // required with default []
   policy: { autoSuggestionEligible: boolean; reason: string };
+  items?: SolutionItem[];              // checklist over AnalysisOutput.items
+  culprits?: CulpritHunk[];            // changed hunks the failure points at (best first)
 };
 
 export type SolutionsReturn = SolutionsOutput & {
-  reviewComments: Array<{ path: string; line: number; body: string }>;
+  reviewComments: Array<{ path: string; line: number; start_line?: number; body: string }>;
   summaryMarkdown: string;
 };
 /* ============================= Zod schemas ============================= */
@@ -84,6 +122,12 @@ const FetchSliceSchema = z.object({
   end_line: z.number().int().nullable().default(null),
 });
 
+const ListCommitFilesSchema = z.object({
+  owner: z.string(),
+  repo: z.string(),
+  ref: z.string(), // HEAD SHA
+});
+
 const CodeSearchSchema = z.object({
   owner: z.string(),
   repo: z.string(),
@@ -135,6 +179,7 @@ const ChangeSchema = z.object({
   match: MatchSchema.nullable().default(null),
   intent: z.enum(["insert_before", "insert_after", "replace"]).nullable().default(null),
   explain: z.string().nullable().default(null),
+  item_id: z.string().nullable().default(null),
 });
 
 const SolutionsSchema = z.object({
@@ -159,6 +204,7 @@ const SolutionsSchema = z.object({
     autoSuggestionEligible: z.boolean(),
     reason: z.string(),
   }),
+  items: z.array(z.object({ id: z.string(), diagnosis: z.string() })).default([]),
 });
 
 /* ============================ Tool helpers ============================ */
@@ -187,6 +233,22 @@ async function getFileContent(octo: Octokit, owner: string, repo: string, ref: s
   return Buffer.from((res.data as any).content, "base64").toString("utf8");
 }
 
+/** Files changed by the PR, or — without a PR — by the head commit */
+async function listChangedFiles(
+  octo: Octokit,
+  owner: string,
+  repo: string,
+  pull_number: number | null,
+  ref: string
+): Promise<Array<{ filename: string; patch?: string | null }>> {
+  if (pull_number != null) {
+    const { data } = await octo.rest.pulls.listFiles({ owner, repo, pull_number, per_page: 300 });
+    return data;
+  }
+  const { data } = await octo.rest.repos.getCommit({ owner, repo, ref });
+  return data.files ?? [];
+}
+
 function firstChangedHunkStart(patch: string | null): number | null {
   if (!patch) return null;
   const m = /@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/.exec(patch);
@@ -315,6 +377,26 @@ const listPRFilesTool = tool(
   }
 );
 
+// list_commit_files: no-PR counterpart of list_pr_files (files touched by the head commit)
+const listCommitFilesTool = tool(
+  async (
+    input: z.infer<typeof ListCommitFilesSchema>,
+    config
+  ) => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const octo: Octokit = (config?.configurable as any)?.octo;
+    const { owner, repo, ref } = input;
+    const files = await listChangedFiles(octo, owner, repo, null, ref);
+    return files.map((f) => ({ filename: f.filename, patch: f.patch ?? null }));
+  },
+  {
+    name: "list_commit_files",
+    description:
+      "List files changed by the head commit (no pull request) with unified diff patches.",
+    schema: ListCommitFilesSchema,
+  }
+);
+
 // fetch_slice: retrieve a file (or targeted range) at PR HEAD SHA
 const fetchSliceTool = tool(
   async (
@@ -377,29 +459,146 @@ const codeSearchTool = tool(
   }
 );
 
+/**
+ * Correlation step: file:line references from test reports, parser findings
+ * and the raw log, mapped onto the hunks this PR (or the head commit) changed.
+ */
+function blameChangedHunks(
+  files: Array<{ filename: string; patch?: string | null }>,
+  log: string,
+  analysis?: AnalysisOutput
+): CulpritHunk[] {
+  const tests = analysis?.failing_tests ?? [];
+  const locations: BlameLocation[] = [
+    ...tests.filter((t) => t.file).map((t) => ({ file: t.file!, line: t.line, source: "report" as const })),
+    ...(analysis?.structured.findings ?? [])
+      .filter((f) => f.file)
+      .map((f) => ({ file: f.file!, line: f.line, source: "finding" as const })),
+    ...findLocations(cleanLines([...tests.map((t) => t.stack), log].join("\n"))).map((l) => ({
+      file: l.file,
+      line: l.line,
+      source: "log" as const,
+    })),
+  ];
+  return rankCulpritHunks(files, locations, MAX_CULPRITS);
+}
+
+/**
+ * Review comments for validated changes: diagnostics (no-op / not applied)
+ * vs real fixes, which become `suggestion` blocks when the policy allows.
+ */
+export function buildReviewComments(
+  changes: Change[],
+  policy: SolutionsOutput["policy"]
+): SolutionsReturn["reviewComments"] {
+  return changes.map((chg) => {
+    // Base start line resolved earlier (start of the matched/original region)
+    const baseLine = chg.anchor?.line ?? 1;
+
+    // If we have original text, use its line count to compute the proper endpoint
+    const origLen =
+      chg.match?.original && chg.match.original.trim().length > 0
+        ? toLF(chg.match.original).split("\n").length
+        : 1;
+
+    // Derive the *display* line depending on the intended action
+    const displayLine =
+      chg.intent === "insert_after"
+        ? baseLine + (origLen - 1) // after the last line of the original block
+        : baseLine;                // replace or insert_before: start line
+
+    // Diagnostic-style comment (no inline suggestion)
+    if (chg.validation?.isNoop || chg.type === "diagnosis") {
+      const verb =
+        chg.intent === "replace" ? "replace at" :
+        chg.intent === "insert_before" ? "add before" :
+        /* insert_after */ "add after";
+
+      const blocks: string[] = [
+        `🔎 **Suggested fix — ${verb} \`line ${displayLine}\`**`
+      ];
+
+      const hasOriginal = !!chg.match?.original?.trim();
+      if (hasOriginal) {
+        blocks.push(
+          "_Current:_",
+          chg.language
+            ? `\`\`\`${chg.language}\n${chg.match!.original!.trim()}\n\`\`\``
+            : `\`\`\`\n${chg.match!.original!.trim()}\n\`\`\``
+        );
+      }
+
+      blocks.push(
+        "_Proposed:_",
+        chg.language
+          ? `\`\`\`${chg.language}\n${chg.hunk.after}\n\`\`\``
+          : `\`\`\`\n${chg.hunk.after}\n\`\`\``
+      );
+
+      if (chg.explain) blocks.push(`_Note:_ ${chg.explain}`);
+      if (!chg.validation?.isNoop && chg.validation?.error) blocks.push(`_Not suggested inline:_ ${chg.validation.error}`);
+
+      const body = blocks.join("\n\n");
+      return { path: chg.path, line: displayLine, body };
+    }
+
+    // Real fix: comment on the whole span (start_line..line); a suggestion replaces exactly those lines,
+    // so inserts carry the line they attach to
+    const span = chg.span ?? { start_line: baseLine, end_line: baseLine, original: null };
+    const range = span.start_line < span.end_line
+      ? { start_line: span.start_line, line: span.end_line }
+      : { line: span.end_line };
+
+    // Real fix: suggestion block (inline) if eligible; else comment-only hint
+    if (policy.autoSuggestionEligible && chg.validation?.appliesCleanly) {
+      const suggestion =
+        span.original == null ? chg.hunk.after :
+        chg.intent === "insert_before" ? `${chg.hunk.after}\n${span.original}` :
+        chg.intent === "insert_after" ? `${span.original}\n${chg.hunk.after}` :
+        chg.hunk.after;
+      const body = ["💡 **Suggested fix**", "", "```suggestion", suggestion, "```"].join("\n");
+      return { path: chg.path, ...range, body };
+    } else {
+      const body = [
+        "💡 **Suggested fix (comment-only; please review)**",
+        "",
+        chg.language ? `\`\`\`${chg.language}\n${chg.hunk.after}\n\`\`\`` : `\`\`\`\n${chg.hunk.after}\n\`\`\``,
+      ].join("\n");
+      return { path: chg.path, ...range, body };
+    }
+  });
+}
+
 /* ============================= Main solver ============================= */
 
 export async function solveFailure(
   input: {
     repo_owner: string;
     repo_name: string;
-    pr_number: number;
+    pr_number: number | null;  // null → push/schedule build, no PR
     commit_sha: string; // HEAD SHA
+    head_branch?: string | null;
     log_content: string;
     installation_id?: number | null;
+    verification?: VerifyResult | null;   // previous loop's fix, re-run in the sandbox and still failing
   },
   analysis?: AnalysisOutput
 ): Promise<SolutionsReturn> {
   const { repo_owner, repo_name, pr_number, commit_sha, installation_id } = input;
+  const hasPR = pr_number != null;
 
   const octo = await getOcto(repo_owner, repo_name, installation_id);
 
+  // Which of the changed hunks does the failure point at?
+  const prFiles = await listChangedFiles(octo, repo_owner, repo_name, pr_number, commit_sha);
+  const culprits = blameChangedHunks(prFiles, input.log_content || analysis?.window || "", analysis);
+
   const llm = new ChatOpenAI({
     model: MODEL,
     temperature: 0,
     timeout: 20_000,
     maxRetries: 2,
-  }).bindTools([listPRFilesTool, fetchSliceTool, codeSearchTool]);
+  }).bindTools([hasPR ? listPRFilesTool : listCommitFilesTool, fetchSliceTool, codeSearchTool]);
 
   const sys = new SystemMessage(
     [
@@ -409,7 +608,16 @@ export async function solveFailure(
       `Budgets: max ${MAX_TOOL_CALLS} tool calls, ≤ ${Math.round(MAX_TOOL_MS / 1000)}s total tool time.`,
       "Output MUST conform to the SolutionsOutput JSON contract.",
       "If not confident, return diagnosis-only (no suggestions).",
-      "Only modify files that are part of this PR.",
+      "SIMILAR_SOLNS are prior fixes ranked by `score`; `score_breakdown` shows why (signature match, outcome, recency…). Prefer accepted fixes with a signature match; don't repeat rejected ones.",
+      "ITEMS are the run's independent failures (F1, F2, …). Handle each on its own: tag every change with the `item_id` it fixes, and give every item a one-line `diagnosis` in `items` (also for items you can only diagnose).",
+      "FAILING_TESTS come from the run's test-report artifacts (exact test, assertion message, stack, file:line): fix what makes that assertion fail.",
+      "VERIFY_FAILED is your previous fix (`changes[].diff`), applied and re-run with `command`: it still fails with `output`. Don't repeat it; fix what the new output shows.",
+      `CULPRIT_HUNKS are the ${hasPR ? "PR's" : "head commit's"} changed hunks that the log's file:line references point at, ranked by \`score\` (0..1; \`reason\` says how they matched). Start from a high-scoring hunk: it most likely broke the build.`,
+      "STRUCTURED.findings come from deterministic log parsers (exact file/line, test id, error code): start from those locations.",
+      "Entries with `provenance` other than same_repo come from another repository (`source_repo`): adapt paths and names to this repo, never copy them verbatim.",
+      hasPR
+        ? "Only modify files that are part of this PR."
+        : "There is no pull request (push build): prefer files changed by the head commit (list_commit_files).",
       `Provide a 'match' hint for anchoring: 
       { kind:"exact", original:"<old lines>"} or { kind:"regex", pattern:"<js regex>"}.
       If uncertain, use { kind:"nearest_changed_hunk" } to target the first changed hunk.`,
@@ -418,6 +626,7 @@ export async function solveFailure(
       `In "hunk.after", include ONLY the exact replacement lines (no context). 
         The number of lines must equal the intended replacement span.`,
       "If your change wouldn,t alter the code after normalization, return a diagnostic instead of a fix.",
+      "Each change is applied to the file by `intent` and the patched file must still parse (TS/JS, JSON, YAML); one that doesn't is downgraded to a diagnostic.",
       "Anchor precisely: include 1-2 original lines in `match.original` that appear verbatim in the file near the change.",
       "Always include 1-2 real lines in `match.original` that appear verbatim in the file near the change.",
       "Return an `intent` for each change: one of `insert_after`, `insert_before`, or `replace`.",
@@ -432,6 +641,35 @@ export async function solveFailure(
 
   const contextParts = [
     analysis?.structured && `STRUCTURED: ${JSON.stringify(analysis.structured)}`,
+    analysis?.items?.length &&
+      `ITEMS: ${JSON.stringify(
+        analysis.items.map((it) => ({
+          id: it.id,
+          error_class: it.error_class,
+          message: it.message,
+          file: it.file,
+          line: it.line,
+          test: it.test,
+          prior_fixes: it.similar_solutions.map((x) => ({ summary: x.summary_one_liner, outcome: x.outcome, score: x.score })),
+        }))
+      )}`,
+    analysis?.failing_tests?.length &&
+      `FAILING_TESTS: ${JSON.stringify(
+        analysis.failing_tests.slice(0, 5).map((t) => ({ ...t, stack: t.stack.split("\n").slice(0, 15).join("\n") }))
+      )}`,
+    input.verification?.status === "failed" &&
+      `VERIFY_FAILED: ${JSON.stringify({
+        command: input.verification.command,
+        exit_code: input.verification.exit_code,
+        output: tailLines(input.verification.output, 60),
+        changes: input.verification.changes,
+      })}`,
+    culprits.length &&
+      `CULPRIT_HUNKS: ${JSON.stringify(
+        culprits.map(({ path, start_line, end_line, line, score, reason, evidence, excerpt }) => ({
+          path, start_line, end_line, line, score, reason, evidence, excerpt,
+        }))
+      )}`,
     analysis?.similar_failures?.length && `SIMILAR_FAILS: ${JSON.stringify(analysis.similar_failures.slice(0, 3))}`,
     analysis?.similar_solutions?.length && `SIMILAR_SOLNS: ${JSON.stringify(analysis.similar_solutions.slice(0, 2))}`,
     "LOG_TAIL:\n" + tailLines(input.log_content || analysis?.window || "", 150),
@@ -440,7 +678,9 @@ export async function solveFailure(
   const user = new HumanMessage(
     [
       `Repo: ${repo_owner}/${repo_name}`,
-      `PR: #${pr_number} @ ${commit_sha}`,
+      hasPR
+        ? `PR: #${pr_number} @ ${commit_sha}`
+        : `Branch: ${input.head_branch ?? "(unknown)"} @ ${commit_sha} (no PR)`,
       ...contextParts,
       "",
       "Decide whether more context is required (files, slices, or search).",
@@ -506,6 +746,14 @@ export async function solveFailure(
               // eslint-disable-next-line @typescript-eslint/no-explicit-any
               result = await listPRFilesTool.invoke(args as any, { configurable: { octo } } as any);
               break;
+            case "list_commit_files":
+              result = await listCommitFilesTool.invoke(
+                // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                { owner: repo_owner, repo: repo_name, ref: commit_sha } as any,
+                // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                { configurable: { octo } } as any
+              );
+              break;
             case "fetch_slice":
               // inject repo defaults
               // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -612,9 +860,8 @@ export async function solveFailure(
   const sol = SolutionsSchema.parse(result);
   const confidence = clamp01(sol.summary.confidence ?? 0);
   const lowRisk = sol.summary.risk === "low";
-  
-  const prFiles = await octo.rest.pulls.listFiles({ owner: repo_owner, repo: repo_name, pull_number: pr_number, per_page: 300 });
-  const filesByPath = new Map(prFiles.data.map(f => [f.filename, { patch: f.patch ?? null }]));
+
+  const filesByPath = new Map(prFiles.map(f => [f.filename, { patch: f.patch ?? null }]));
 
   const validatedChanges: Change[] = [];
   for (const ch of sol.changes) {
@@ -628,7 +875,7 @@ export async function solveFailure(
       validatedChanges.push({
         ...ch,
         anchor: { line: guess ?? 1 },
-        validation: { ...ch.validation, isNoop: true },
+        validation: { appliesCleanly: false, isNoop: true, error: NOT_IN_CHANGE_SET },
         type: "diagnosis",
       });
       continue;
@@ -718,7 +965,7 @@ export async function solveFailure(
       validatedChanges.push({
         ...ch,
         anchor: { line: guess ?? 1 },              // give diagnostics a real display line
-        validation: { ...ch.validation, isNoop: false },
+        validation: { appliesCleanly: false, isNoop: false, error: "could not anchor the change" },
         type: "diagnosis",
       });
       continue;
@@ -736,10 +983,6 @@ export async function solveFailure(
     const lines = full.split("\n");
     const current = lines.slice(start - 1, Math.min(end, lines.length)).join("\n");
     const noop = normalizeBlock(current) === normalizeBlock(proposed);
-  
-    // derive type (fix only if not noop and appliesCleanly)
-    const applies = !!ch.validation?.appliesCleanly;
-    const typ: "fix" | "diagnosis" = !noop && applies ? "fix" : "diagnosis";
 
     // Derive/normalize intent & explain for diagnostics (esp. noop)
     let intent = ch.intent ?? null;
@@ -770,11 +1013,34 @@ export async function solveFailure(
       }
     }
 
+    // Apply it for real: the model's appliesCleanly claim is ignored
+    const edit = editForChange({ ...ch, anchor: { line: start }, intent, hunk: { after: proposed } });
+    const range = editRange(edit);
+    const span: ChangeSpan = {
+      ...range,
+      original: toLF(full).split("\n").slice(range.start_line - 1, range.end_line).join("\n"),
+    };
+    const patch = noop ? null : applyPatch(ch.path, full, edit, ch.language);
+    if (DEBUG_SOL) {
+      console.log(`[patch] path=${ch.path} ok=${patch?.ok ?? "noop"} parser=${patch?.syntax.parser ?? null} error=${patch?.error ?? null}`);
+    }
+
+    // fix only if not noop and the patch applies (and parses)
+    const applies = !!patch?.ok;
+    const typ: "fix" | "diagnosis" = !noop && applies ? "fix" : "diagnosis";
+
     validatedChanges.push({
       ...ch,
       anchor: { line: start },
       hunk: { after: proposed },
-      validation: { ...ch.validation, isNoop: noop },
+      validation: {
+        appliesCleanly: applies,
+        isNoop: noop,
+        parses: patch?.syntax.checked ? patch.syntax.ok : null,
+        error: patch?.error ?? null,
+      },
+      diff: patch?.diff || null,
+      span,
       type: typ,
       intent,
       explain,
@@ -796,79 +1062,47 @@ export async function solveFailure(
         };
   
 
+  // Checklist: an item is addressed when a real fix is tagged with it
+  const analysisItems = analysis?.items ?? [];
+  const itemOf = (c: Change) => c.item_id ?? (analysisItems.length === 1 ? analysisItems[0].id : null);
+  const items: SolutionItem[] = analysisItems.map((it) => ({
+    id: it.id,
+    title: [
+      `\`${it.error_class || "error"}\``,
+      it.test && `in \`${it.test}\``,
+      it.file && `at \`${it.file}${it.line ? `:${it.line}` : ""}\``,
+    ].filter(Boolean).join(" "),
+    status: validatedChanges.some((c) => itemOf(c) === it.id && c.type === "fix" && !c.validation.isNoop)
+      ? "addressed"
+      : "diagnosed",
+    diagnosis: sol.items.find((x) => x.id === it.id)?.diagnosis ?? it.message,
+  }));
+
+  // Blame: only a strong hit on a changed line / hunk is worth stating
+  const top = culprits[0];
+  const culprit =
+    top && top.score >= CULPRIT_MIN_SCORE && (top.reason === "added_line" || top.reason === "in_hunk") ? top : null;
+  const culpritLine = culprit && (() => {
+    const link = `https://github.com/${repo_owner}/${repo_name}/blob/${commit_sha}/${encodeURI(culprit.path)}#L${culprit.line}`;
+    const ev = culprit.evidence[0];
+    const how = culprit.reason === "added_line" ? "a line it added" : "a hunk it changed";
+    return `**Introduced by this ${hasPR ? "PR" : "commit"} at** [\`${culprit.path}:${culprit.line}\`](${link}) — ` +
+      `the failure points at ${how}` + (ev ? ` (\`${ev.file}${ev.line ? `:${ev.line}` : ""}\` in the ${ev.source})` : "");
+  })();
+
   // Top review body (add a small legend for clarity)
   const summaryMarkdown = [
     `**ResolvCI** — ${sol.summary.one_liner}`,
     ``,
     `**Rationale:** ${sol.summary.rationale}`,
     `**Confidence:** ${(confidence * 100).toFixed(0)}% • **Risk:** ${sol.summary.risk}`,
+    ...(culpritLine ? [culpritLine] : []),
     ``,
+    itemChecklistMarkdown(items),
   ].join("\n");
 
   // Inline comments: diagnostics (no-op) vs suggestions (real fixes)
-  const reviewComments = validatedChanges.map((chg) => {
-    // Base start line resolved earlier (start of the matched/original region)
-    const baseLine = chg.anchor?.line ?? 1;
-  
-    // If we have original text, use its line count to compute the proper endpoint
-    const origLen =
-      chg.match?.original && chg.match.original.trim().length > 0
-        ? toLF(chg.match.original).split("\n").length
-        : 1;
-  
-    // Derive the *display* line depending on the intended action
-    const displayLine =
-      chg.intent === "insert_after"
-        ? baseLine + (origLen - 1) // after the last line of the original block
-        : baseLine;                // replace or insert_before: start line
-  
-    // Diagnostic-style comment (no inline suggestion)
-    if (chg.validation?.isNoop || chg.type === "diagnosis") {
-      const verb =
-        chg.intent === "replace" ? "replace at" :
-        chg.intent === "insert_before" ? "add before" :
-        /* insert_after */ "add after";
-  
-      const blocks: string[] = [
-        `🔎 **Suggested fix — ${verb} \`line ${displayLine}\`**`
-      ];
-  
-      const hasOriginal = !!chg.match?.original?.trim();
-      if (hasOriginal) {
-        blocks.push(
-          "_Current:_",
-          chg.language
-            ? `\`\`\`${chg.language}\n${chg.match!.original!.trim()}\n\`\`\``
-            : `\`\`\`\n${chg.match!.original!.trim()}\n\`\`\``
-        );
-      }
-  
-      blocks.push(
-        "_Proposed:_",
-        chg.language
-          ? `\`\`\`${chg.language}\n${chg.hunk.after}\n\`\`\``
-          : `\`\`\`\n${chg.hunk.after}\n\`\`\``
-      );
-  
-      if (chg.explain) blocks.push(`_Note:_ ${chg.explain}`);
-  
-      const body = blocks.join("\n\n");
-      return { path: chg.path, line: displayLine, body };
-    }
-  
-    // Real fix: suggestion block (inline) if eligible; else comment-only hint
-    if (policy.autoSuggestionEligible && chg.validation?.appliesCleanly) {
-      const body = ["💡 **Suggested fix**", "", "```suggestion", chg.hunk.after, "```"].join("\n");
-      return { path: chg.path, line: baseLine, body };
-    } else {
-      const body = [
-        "💡 **Suggested fix (comment-only; please review)**",
-        "",
-        chg.language ? `\`\`\`${chg.language}\n${chg.hunk.after}\n\`\`\`` : `\`\`\`\n${chg.hunk.after}\n\`\`\``,
-      ].join("\n");
-      return { path: chg.path, line: baseLine, body };
-    }
-  });
+  const reviewComments = buildReviewComments(validatedChanges, policy);
   
 
   const final: SolutionsReturn = {
@@ -885,6 +1119,8 @@ export async function solveFailure(
       ...toolInvocations,        
     ],
     policy,
+    items,
+    culprits,
     reviewComments,
     summaryMarkdown,
   };
@@ -0,0 +1,299 @@
+import { existsSync } from "node:fs";
+import path from "node:path";
+import type { Octokit } from "octokit";
+
+import { getOctokitForInstallation, getOctokitForRepo } from "@/lib/github";
+import { applyEdit, editForChange } from "@/lib/patch";
+import { cleanLines } from "@/lib/log-parsers/common";
+import { tailLines } from "@/lib/text";
+import {
+  checkoutRef,
+  removeCheckout,
+  readCheckoutFile,
+  writeCheckoutFile,
+  runSandboxed,
+  sandboxProblem,
+  type SandboxLimits,
+} from "@/lib/sandbox";
+import { buildReviewComments, type Change, type SolutionsReturn } from "@/agents/solutions";
+import type { AnalysisOutput } from "@/agents/analysis";
+
+/**
+ * Verification: before posting, check out the head commit, apply the
+ * validated changes and re-run the command that failed (one test, `tsc`, or
+ * the linter) in a local sandbox (lib/sandbox.ts).
+ *
+ *  - passed → confidence is raised and suggestion blocks are unlocked
+ *  - failed → the new output goes back into another insight loop (graph.ts)
+ *
+ * Optional (VERIFY_ENABLED=1): it needs a host that can run the repo's
+ * toolchain in an isolation wrapper, which serverless deployments usually
+ * can't. Without one (see sandboxProblem), and for fork PRs, it is skipped.
+ */
+
+export const VERIFY_ENABLED = process.env.VERIFY_ENABLED === "1";
+const DEBUG = process.env.DEBUG_VERIFY === "1";
+const PASS_CONFIDENCE = Number(process.env.VERIFY_PASS_CONFIDENCE ?? "0.9");
+const TAU = Number(process.env.SOLUTIONS_CONFIDENCE_TAU ?? "0.80");
+const INSTALL_DEPS = process.env.VERIFY_INSTALL_DEPS !== "0";
+
+const LIMITS: SandboxLimits = {
+  timeoutMs: Number(process.env.VERIFY_TIMEOUT_MS ?? "180000"),
+  memoryMb: Number(process.env.VERIFY_MEMORY_MB ?? "2048"),
+  virtualMemoryMb: Number(process.env.VERIFY_VMEM_MB ?? "4096"),
+  cpuSeconds: Number(process.env.VERIFY_CPU_SECONDS ?? "300"),
+  fileMb: Number(process.env.VERIFY_FILE_MB ?? "512"),
+};
+const INSTALL_LIMITS: SandboxLimits = {
+  ...LIMITS,
+  timeoutMs: Number(process.env.VERIFY_INSTALL_TIMEOUT_MS ?? "300000"),
+  cpuSeconds: Number(process.env.VERIFY_INSTALL_CPU_SECONDS ?? "600"),
+};
+const OUTPUT_LINES = 120;
+
+export type FailingCommand = {
+  kind: "test" | "typecheck" | "lint" | "step";
+  argv: string[];
+  source: "parser" | "step";    // narrowed from parser findings, or the failing step's `run:` line
+};
+
+export type VerifyResult = {
+  status: "passed" | "failed" | "skipped" | "error";
+  command: string | null;
+  kind: FailingCommand["kind"] | null;
+  exit_code: number | null;
+  ms: number;
+  output: string;               // tail of the run (or install) output
+  reason: string | null;        // why skipped / errored
+  changes: Array<{ path: string; diff: string | null }>;   // what was applied
+};
+
+/* ============================== Command ============================== */
+
+// Only well-known runners are re-run; no shell syntax (argv is never given to a shell as a string)
+const STEP_ALLOWED =
+  /^(?:npm|npx|yarn|pnpm|tsc|eslint|jest|vitest|pytest|python3? -m pytest|go (?:test|vet|build)|cargo (?:test|check|build|clippy))\b/;
+const SHELL_SYNTAX = /[;&|`$<>(){}\\'"*?]/;
+const STEP_RUN = /^##\[group\]Run (.+)$/;
+const SECTION_RUN = /^===== .+ \/ Run (.+) =====$/;
+
+const escapeRegex = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+// npx must only run what the checkout installed: never fetch a package by name (`tsc` on npm isn't TypeScript)
+const NPX = ["npx", "--no-install"];
+const displayOf = (argv: string[]) => argv.map((a) => (/\s/.test(a) ? JSON.stringify(a) : a)).join(" ");
+
+/**
+ * The narrowest command that reproduces the failure: the failing test / the
+ * type-check / the linter on the reported files, from parser findings; else
+ * the failing step's own `run:` line when it's a known runner.
+ */
+export function failingCommand(log: string, analysis?: AnalysisOutput): FailingCommand | null {
+  const findings = analysis?.structured.findings ?? [];
+  const text = cleanLines(log).join("\n");
+
+  const jest = findings.find((f) => f.parser === "jest" && f.test);
+  if (jest) {
+    const [file, ...titles] = jest.test!.split(" > ");
+    const runner = /\bvitest\b|^\s*Test Files\s/m.test(text) ? [...NPX, "vitest", "run"] : [...NPX, "jest"];
+    const name = titles[titles.length - 1];
+    return {
+      kind: "test",
+      argv: [...runner, file, ...(name ? ["-t", escapeRegex(name)] : [])],
+      source: "parser",
+    };
+  }
+
+  const pytest = findings.find((f) => f.parser === "pytest" && f.test);
+  if (pytest) return { kind: "test", argv: ["python", "-m", "pytest", pytest.test!], source: "parser" };
+
+  if (findings.some((f) => f.parser === "tsc")) {
+    return { kind: "typecheck", argv: [...NPX, "tsc", "--noEmit"], source: "parser" };
+  }
+
+  const lint = [...new Set(findings.filter((f) => f.parser === "eslint" && f.file).map((f) => f.file!))];
+  if (lint.length) return { kind: "lint", argv: [...NPX, "eslint", ...lint.slice(0, 20)], source: "parser" };
+
+  // Failing step's command: the runner's group header, else the section title (GitHub names run steps "Run <cmd>")
+  const lines = text.split("\n");
+  const runs = lines
+    .map((ln) => STEP_RUN.exec(ln)?.[1] ?? SECTION_RUN.exec(ln)?.[1] ?? null)
+    .filter((c): c is string => !!c)
+    .map((c) => c.trim());
+  const cmd = runs.reverse().find((c) => STEP_ALLOWED.test(c) && !SHELL_SYNTAX.test(c));
+  if (!cmd) return null;
+
+  const kind: FailingCommand["kind"] = /\b(?:tsc|type-?check)\b/.test(cmd)
+    ? "typecheck"
+    : /\blint\b|eslint|clippy|\bvet\b/.test(cmd)
+      ? "lint"
+      : /\btest\b|jest|vitest|pytest/.test(cmd)
+        ? "test"
+        : "step";
+  const argv = cmd.split(/\s+/);
+  if (argv[0] === "npx" && argv[1] !== "--no-install") argv.splice(1, 0, "--no-install");
+  return { kind, argv, source: "step" };
+}
+
+/* ============================== Sandbox ============================== */
+
+/** Install command for a node checkout (lockfile decides the package manager); scripts never run */
+function installCommand(dir: string): string[] | null {
+  if (!existsSync(path.join(dir, "package.json"))) return null;
+  if (existsSync(path.join(dir, "pnpm-lock.yaml"))) return ["pnpm", "install", "--frozen-lockfile", "--ignore-scripts"];
+  if (existsSync(path.join(dir, "yarn.lock"))) return ["yarn", "install", "--frozen-lockfile", "--ignore-scripts"];
+  if (existsSync(path.join(dir, "package-lock.json"))) return ["npm", "ci", "--ignore-scripts", "--no-audit", "--no-fund"];
+  return ["npm", "install", "--ignore-scripts", "--no-audit", "--no-fund"];
+}
+
+/** Apply the changes to the checkout; per file bottom-up so earlier edits don't shift later anchors */
+async function applyChanges(dir: string, changes: Change[]) {
+  const byPath = new Map<string, Change[]>();
+  for (const c of changes) byPath.set(c.path, [...(byPath.get(c.path) ?? []), c]);
+
+  for (const [file, list] of byPath) {
+    let content = await readCheckoutFile(dir, file);
+    for (const c of [...list].sort((a, b) => (b.anchor?.line ?? 1) - (a.anchor?.line ?? 1))) {
+      const applied = applyEdit(content, editForChange(c));
+      if (applied.error) throw new Error(`${file}: ${applied.error}`);
+      content = applied.content;
+    }
+    await writeCheckoutFile(dir, file, content);
+  }
+}
+
+async function getOcto(owner: string, repo: string, installationId?: number | null): Promise<Octokit> {
+  if (installationId != null) return await getOctokitForInstallation(installationId);
+  return await getOctokitForRepo(owner, repo);
+}
+
+/** Verify a solution's fixes against the head commit; never throws */
+export async function verifySolution(input: {
+  repo_owner: string;
+  repo_name: string;
+  pr_number?: number | null;
+  commit_sha: string;
+  installation_id?: number | null;
+  log_content: string;
+  analysis?: AnalysisOutput;
+  solution: SolutionsReturn;
+}): Promise<VerifyResult> {
+  const fixes = input.solution.changes.filter(
+    (c) => c.type === "fix" && c.validation.appliesCleanly && !c.validation.isNoop
+  );
+  const changes = fixes.map((c) => ({ path: c.path, diff: c.diff ?? null }));
+  const skip = (reason: string, cmd: FailingCommand | null = null): VerifyResult => ({
+    status: "skipped",
+    command: cmd ? displayOf(cmd.argv) : null,
+    kind: cmd?.kind ?? null,
+    exit_code: null,
+    ms: 0,
+    output: "",
+    reason,
+    changes,
+  });
+
+  if (!VERIFY_ENABLED) return skip("verification disabled");
+  if (!fixes.length) return skip("no applicable fixes");
+  const cmd = failingCommand(input.log_content, input.analysis);
+  if (!cmd) return skip("no re-runnable command found in the log");
+
+  // Fail closed: PR code never runs on the bare host
+  const needsInstall = INSTALL_DEPS && /^(?:npm|npx|yarn|pnpm|tsc|eslint|jest|vitest)$/.test(cmd.argv[0]);
+  const problem = sandboxProblem({ install: needsInstall });
+  if (problem) return skip(problem, cmd);
+
+  const command = displayOf(cmd.argv);
+  const started = Date.now();
+  let dir: string | null = null;
+  try {
+    const octo = await getOcto(input.repo_owner, input.repo_name, input.installation_id);
+
+    // A fork's code is anyone's code: never run it
+    if (input.pr_number != null) {
+      const { data: pr } = await octo.rest.pulls.get({
+        owner: input.repo_owner,
+        repo: input.repo_name,
+        pull_number: input.pr_number,
+      });
+      if (pr.head.repo?.full_name !== pr.base.repo.full_name) return skip("pull request comes from a fork", cmd);
+    }
+
+    dir = await checkoutRef(octo, input.repo_owner, input.repo_name, input.commit_sha);
+    await applyChanges(dir, fixes);
+
+    const install = needsInstall ? installCommand(dir) : null;
+    if (install) {
+      const inst = await runSandboxed(dir, install, INSTALL_LIMITS, { install: true });
+      if (inst.exit_code !== 0) {
+        return {
+          ...skip(inst.timed_out ? "dependency install timed out" : `dependency install failed (${displayOf(install)})`, cmd),
+          status: "error",
+          ms: Date.now() - started,
+          output: tailLines(inst.output, OUTPUT_LINES),
+        };
+      }
+    }
+
+    const run = await runSandboxed(dir, cmd.argv, LIMITS);
+    const result: VerifyResult = {
+      status: run.exit_code === 0 ? "passed" : "failed",
+      command,
+      kind: cmd.kind,
+      exit_code: run.exit_code,
+      ms: Date.now() - started,
+      output: tailLines(run.output, OUTPUT_LINES),
+      reason: run.timed_out ? `timed out after ${Math.round(LIMITS.timeoutMs / 1000)}s` : null,
+      changes,
+    };
+    // A timeout says nothing about the fix
+    if (run.timed_out) result.status = "error";
+    if (DEBUG) console.log("[Verify]", { command, status: result.status, exit: run.exit_code, ms: result.ms });
+    return result;
+  } catch (e) {
+    console.warn("[Verify] sandbox run failed; posting unverified:", e);
+    return { ...skip(String((e as Error)?.message ?? e), cmd), status: "error", ms: Date.now() - started };
+  } finally {
+    if (dir) await removeCheckout(dir);
+  }
+}
+
+/* ============================== Outcome ============================== */
+
+/**
+ * Fold a verification result into the solution: a pass raises confidence and
+ * unlocks suggestion blocks; a failure (once the loops are spent) keeps the
+ * fixes comment-only. Skipped / errored runs leave the solution as is.
+ */
+export function applyVerification(sol: SolutionsReturn, v: VerifyResult): SolutionsReturn {
+  if (v.status !== "passed" && v.status !== "failed") return sol;
+
+  const passed = v.status === "passed";
+  const confidence = passed ? Math.max(sol.summary.confidence, PASS_CONFIDENCE) : Math.min(sol.summary.confidence, TAU - 0.01);
+  const fixes = sol.changes.filter((c) => c.type === "fix" && c.validation.appliesCleanly && !c.validation.isNoop);
+  const policy = passed
+    ? {
+        autoSuggestionEligible: fixes.length > 0 && sol.summary.risk !== "high",
+        reason: `Verified: \`${v.command}\` passes with the fix applied.`,
+      }
+    : { autoSuggestionEligible: false, reason: `Verification failed: \`${v.command}\` still fails with the fix applied.` };
+
+  const note = passed
+    ? `**Verified:** ✅ \`${v.command}\` passes with the fix applied (sandbox, ${Math.round(v.ms / 1000)}s)`
+    : `**Verified:** ⚠️ \`${v.command}\` still fails with the fix applied — review before using it`;
+  const summaryMarkdown = sol.summaryMarkdown
+    .split("\n")
+    .flatMap((ln) =>
+      /^\*\*Confidence:\*\* /.test(ln)
+        ? [ln.replace(/^\*\*Confidence:\*\* \d+%/, `**Confidence:** ${(confidence * 100).toFixed(0)}%`), note]
+        : [ln]
+    )
+    .join("\n");
+
+  return {
+    ...sol,
+    summary: { ...sol.summary, confidence },
+    policy,
+    reviewComments: buildReviewComments(sol.changes, policy),
+    summaryMarkdown,
+  };
+}
@@ -0,0 +1,59 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { getOctokitForContext } from "@/lib/github";
+import { parseChatOpsCommand, runChatOpsCommand, type ChatOpsContext } from "@/agents/chatops";
+import { isCronAuthorized } from "@/lib/auth";
+
+/**
+ * POST /api/chatops — runs a `/resolvci` command (called by the webhook route)
+ * Body: { owner, repo, pr_number, comment_id, comment_kind, actor, body, installation_id? }
+ * Auth: Authorization: Bearer <CRON_SECRET>
+ */
+export async function POST(req: NextRequest) {
+  if (!isCronAuthorized(req)) {
+    return NextResponse.json({ ok: false, error: "forbidden" }, { status: 403 });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const cmd = parseChatOpsCommand(body?.body);
+  if (!cmd || typeof body.owner !== "string" || typeof body.repo !== "string" || !body.pr_number || !body.comment_id) {
+    return NextResponse.json({ ok: false, error: "not a command" }, { status: 400 });
+  }
+
+  const ctx: ChatOpsContext = {
+    owner: body.owner,
+    repo: body.repo,
+    pr_number: Number(body.pr_number),
+    comment_id: Number(body.comment_id),
+    comment_kind: body.comment_kind === "pull_request_review_comment" ? "pull_request_review_comment" : "issue_comment",
+    actor: String(body.actor ?? ""),
+  };
+
+  const base =
+    process.env.NEXT_PUBLIC_BASE_URL ||
+    `${req.headers.get("x-forwarded-proto") || (process.env.NODE_ENV === "development" ? "http" : "https")}://${req.headers.get("host")}`;
+  const requestGraphRun = () => {
+    const secret = process.env.CRON_SECRET;
+    if (!base || !secret) return;
+    fetch(`${base}/api/graph-run`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${secret}` },
+      keepalive: true,
+    }).catch(() => {});
+  };
+
+  try {
+    const octo = await getOctokitForContext(ctx.owner, ctx.repo, body.installation_id ?? null);
+    const result = await runChatOpsCommand(octo, ctx, cmd, requestGraphRun);
+    console.log(`[chatops] ${ctx.owner}/${ctx.repo}#${ctx.pr_number} ${ctx.actor}:`, result);
+    return NextResponse.json(result);
+  } catch (err: unknown) {
+    let message: string = String(err)
+    if (err instanceof Error)
+      message = err?.message
+    console.error("[chatops] command failed:", err);
+    return NextResponse.json({ ok: false, command: cmd.name, error: message }, { status: 500 });
+  }
+}
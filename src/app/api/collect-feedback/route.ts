@@ -0,0 +1,40 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { collectFeedback } from "@/agents/feedback";
+import { isCronAuthorized } from "@/lib/auth";
+
+const DEFAULT_BATCH = Number(process.env.FEEDBACK_BATCH_SIZE ?? "10");
+
+/**
+ * POST /api/collect-feedback — poll review outcomes for recent recommendations (cron)
+ * Body: optional { limit?: number }
+ * Auth: Authorization: Bearer <CRON_SECRET>
+ */
+export async function POST(req: NextRequest) {
+  if (!isCronAuthorized(req)) {
+    return NextResponse.json({ ok: false, error: "forbidden" }, { status: 403 });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const limit =
+    typeof body?.limit === "number" && body.limit > 0 && body.limit <= 50 ? body.limit : DEFAULT_BATCH;
+
+  try {
+    const results = await collectFeedback(limit);
+    return NextResponse.json({
+      ok: true,
+      checked: results.length,
+      accepted: results.filter((r) => r.outcome === "accepted").length,
+      rejected: results.filter((r) => r.outcome === "rejected").length,
+      results,
+    });
+  } catch (err: unknown) {
+    let message: string = String(err)
+    if (err instanceof Error)
+      message = err?.message
+    console.error("[collect-feedback] fatal:", err);
+    return NextResponse.json({ ok: false, error: message }, { status: 500 });
+  }
+}
@@ -3,7 +3,8 @@ export const dynamic = "force-dynamic";
 
 import crypto from "node:crypto";
 import { NextRequest, NextResponse } from "next/server";
-import { recordWebhookDelivery, logBuildFailure } from "@/lib/tidb";
+import { recordWebhookDelivery, logBuildFailure, supersedeStaleForPR, markRerunPassed } from "@/lib/tidb";
+import { parseChatOpsCommand } from "@/agents/chatops";
 
 async function raw(req: NextRequest): Promise<Buffer> {
   const ab = await req.arrayBuffer();
@@ -14,6 +15,36 @@ function tEq(a: string, b: string) {
   return A.length === B.length && crypto.timingSafeEqual(A, B);
 }
 
+/**
+ * Run/job/check-suite ids carried by the delivery.
+ * For GitHub Actions, check_run.id is the job id and the run id is only
+ * present in details_url (…/actions/runs/<run_id>/job/<job_id>).
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function runIdentifiers(eventType: string, payload: any) {
+  if (eventType === "workflow_run") {
+    const wr = payload.workflow_run ?? {};
+    return {
+      runId: wr.id != null ? String(wr.id) : null,
+      runAttempt: typeof wr.run_attempt === "number" ? wr.run_attempt : null,
+      jobId: null,
+      checkSuiteId: wr.check_suite_id ?? null,
+    };
+  }
+  if (eventType === "check_run") {
+    const cr = payload.check_run ?? {};
+    const m = /\/actions\/runs\/(\d+)\/job\/(\d+)/.exec(String(cr.details_url ?? cr.html_url ?? ""));
+    const isActions = !!m || cr.app?.slug === "github-actions";
+    return {
+      runId: m ? m[1] : null,
+      runAttempt: null,
+      jobId: isActions && cr.id != null ? Number(cr.id) : null,
+      checkSuiteId: cr.check_suite?.id ?? null,
+    };
+  }
+  return { runId: null, runAttempt: null, jobId: null, checkSuiteId: null };
+}
+
 export async function POST(req: NextRequest) {
   try {
     const sig = req.headers.get("x-hub-signature-256");
@@ -38,10 +69,75 @@ export async function POST(req: NextRequest) {
     } else if (event === "workflow_run") {
       const action = payload.action;               // expect "completed"
       const conclusion = payload.workflow_run?.conclusion; // expect "failure"
+      const attempt = payload.workflow_run?.run_attempt;
+      if (action === "completed" && conclusion === "success" && typeof attempt === "number" && attempt > 1) {
+        // Same commit, passed on re-run: evidence of flakiness for the earlier attempts
+        const flagged = await markRerunPassed({
+          repoOwner: payload.repository?.owner?.login ?? "unknown",
+          repoName: payload.repository?.name ?? "unknown",
+          runId: String(payload.workflow_run.id),
+          runAttempt: attempt,
+          commitSha: payload.workflow_run.head_sha ?? "unknown",
+        });
+        return NextResponse.json({ ok: true, rerun_passed: flagged });
+      }
       if (action !== "completed" || conclusion !== "failure") {
         return NextResponse.json({ ok: true, ignored: "workflow_run not completed failure" });
       }
     }
+    else if (event === "pull_request") {
+      // New commits on the PR: drop pending analysis/reviews for older heads
+      if (payload.action !== "synchronize") {
+        return NextResponse.json({ ok: true, ignored: "pull_request not synchronize" });
+      }
+      const prNumber = payload.pull_request?.number;
+      const headSha = payload.pull_request?.head?.sha ?? payload.after;
+      if (!prNumber || !headSha) {
+        return NextResponse.json({ ok: true, ignored: "synchronize without pr number or head sha" });
+      }
+      const superseded = await supersedeStaleForPR({
+        repoOwner: payload.repository?.owner?.login ?? "unknown",
+        repoName: payload.repository?.name ?? "unknown",
+        prNumber,
+        headSha,
+      });
+      console.log(`[webhook] synchronize pr=${prNumber} head=${headSha}`, superseded);
+      return NextResponse.json({ ok: true, superseded });
+    }
+    else if (event === "issue_comment" || event === "pull_request_review_comment") {
+      // ChatOps: `/resolvci …` on a PR (conversation or review thread)
+      const prNumber = event === "issue_comment"
+        ? (payload.issue?.pull_request ? payload.issue?.number : null)
+        : payload.pull_request?.number;
+      const cmd = parseChatOpsCommand(payload.comment?.body);
+      if (payload.action !== "created" || !prNumber || !cmd || payload.comment?.user?.type === "Bot") {
+        return NextResponse.json({ ok: true, ignored: `${event} without a command` });
+      }
+
+      const first = await recordWebhookDelivery(deliveryId, eventType, payload);
+      if (!first) return NextResponse.json({ ok: true, deduped: true });
+
+      const base = (process.env.NODE_ENV === "development")? `${process.env.DEV_URL}`: req.nextUrl.origin;
+      const secret = process.env.CRON_SECRET;
+      if (base && secret) {
+        fetch(`${base}/api/chatops`, {
+          method: "POST",
+          headers: { Authorization: `Bearer ${secret}`, "Content-Type": "application/json" },
+          body: JSON.stringify({
+            owner: payload.repository?.owner?.login,
+            repo: payload.repository?.name,
+            pr_number: prNumber,
+            comment_id: payload.comment?.id,
+            comment_kind: event,
+            actor: payload.comment?.user?.login,
+            body: payload.comment?.body,
+            installation_id: payload.installation?.id ?? null,
+          }),
+          keepalive: true,
+        }).catch(() => {});
+      }
+      return NextResponse.json({ ok: true, command: cmd.name });
+    }
     else {// ignore anything else
       return NextResponse.json({ ok: true, ignored: "" });
     }
@@ -70,30 +166,39 @@ export async function POST(req: NextRequest) {
       payload.after ??
       "unknown";
 
-    const runId  = (payload.workflow_run?.id && String(payload.workflow_run.id)) ||
-      null;  // not really needed here
+    // Needed for push/schedule builds, where there is no PR to attach to
+    const headBranch: string | null =
+      payload.workflow_run?.head_branch ??
+      payload.check_run?.check_suite?.head_branch ??
+      null;
+
+    // What the PR merges into: a failure that also breaks this branch isn't the PR's fault
+    const baseBranch: string | null =
+      payload.check_run?.pull_requests?.[0]?.base?.ref ??
+      payload.workflow_run?.pull_requests?.[0]?.base?.ref ??
+      payload.repository?.default_branch ??
+      null;
+
+    // Exact identifiers: graph-run fetches these logs directly instead of re-discovering the run
+    const { runId, runAttempt, jobId, checkSuiteId } = runIdentifiers(eventType, payload);
 
     const installationId: number | null = payload.installation?.id ?? null;
+    // Visibility gates cross-repo knowledge sharing (private fixes never reach other repos' reviews)
+    const repoPrivate: boolean | null = typeof payload.repository?.private === "boolean" ? payload.repository.private : null;
 
     let logExcerpt = `event=${eventType} delivery=${deliveryId}`;
     if (eventType === "check_run") {
       logExcerpt = payload.check_run?.output?.summary ?? payload.check_run?.output?.text ?? logExcerpt;
     } else if (eventType === "workflow_run") {
       logExcerpt = payload.workflow_run?.display_title ? `workflow_run: ${payload.workflow_run.display_title}` : logExcerpt;
-    } else if (eventType === "pull_request_review_comment") {
-      logExcerpt = `PR review comment by ${payload.comment?.user?.login}:
-${payload.comment?.body ?? ""}`;
-    } else if (eventType === "issue_comment" && payload.issue?.pull_request) {
-      logExcerpt = `PR comment by ${payload.comment?.user?.login}:
-${payload.comment?.body ?? ""}`;
     }
 
     // Github sometimes makes multiple calls to this endpoint: 
-    console.log(`[webhook] delivery=${deliveryId} runId=${runId} action=${payload.action} ev=${eventType}`);
+    console.log(`[webhook] delivery=${deliveryId} runId=${runId} jobId=${jobId} action=${payload.action} ev=${eventType}`);
 
     await logBuildFailure({
-      repoOwner, repoName, prNumber, commitSha: headSha,
-      logContent: logExcerpt, runId,
+      repoOwner, repoName, repoPrivate, prNumber, commitSha: headSha, headBranch, baseBranch,
+      logContent: logExcerpt, runId, runAttempt, jobId, checkSuiteId,
       installationId,
     });
 
@@ -1,45 +1,78 @@
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
+import { randomUUID } from "node:crypto";
 import { NextRequest, NextResponse } from "next/server";
-import yauzl from "yauzl";
 import type { BaseMessage } from "@langchain/core/messages";
 import type { Octokit } from "octokit";
 import {
-  sequelize,
   BuildFailure,
+  getRepoSettings,
+  ANALYSIS_LEASE_MS,
+  heartbeatBuildFailure,
+  releaseBuildFailure,
+  reclaimExpiredBuildFailures,
+  claimBuildFailures,
+  joinIncident,
+  incidentMembers,
+  releaseIncidentMembers,
+  findIgnoredSignature,
+  type BuildFailureTriage,
 } from "@/lib/tidb";
 
-import { normalize, tailLines, templateize, sha1 } from "@/lib/text";
+import { normalize, tailLines, sha1, jsonClamp } from "@/lib/text";
+import { errorSignatureV2 } from "@/lib/log-parsers";
+import {
+  streamToBuffer,
+  unzipLogArchive,
+  segmentLogArchive,
+  applyJobMetadata,
+  jobFromLog,
+  isFailedConclusion,
+  failingSections,
+  renderSections,
+  summarizeJobs,
+  type JobMetadata,
+  type LogJob,
+} from "@/lib/logs";
+import { readTestReportArchive, type FailingTestCase } from "@/lib/test-reports";
 
 import {
   getOctokitForInstallation,
   getOctokitForRepo,
   findLatestRunForPR,
+  findLatestRunForCommit,
 } from "@/lib/github";
 
 import { ResolvGraphApp, type GraphInit } from "@/agents/graph";
+import { actuatorTargetFor } from "@/agents/actuator";
 
 
 // Retry tuning (defaults: 3 attempts, ~1s → ~2s → ~4s)
 const LOG_MAX_RETRIES = Number(process.env.LOG_MAX_RETRIES ?? "3");
 const LOG_RETRY_BASE_MS = Number(process.env.LOG_RETRY_BASE_MS ?? "1000");
+// Direct job-log fetches: cap how many failed jobs / bytes per job we pull
+const MAX_FAILED_JOBS = Number(process.env.LOG_MAX_FAILED_JOBS ?? "5");
+const JOB_LOG_TAIL_BYTES = Number(process.env.LOG_JOB_TAIL_BYTES ?? "400000");
+// Worker mode defaults (overridable per request)
+const WORKER_BATCH = Number(process.env.GRAPH_WORKER_BATCH ?? "10");
+const WORKER_CONCURRENCY = Number(process.env.GRAPH_WORKER_CONCURRENCY ?? "3");
+// Test-report artifacts (JUnit/TRX/TAP) matched by name, size-capped
+const TEST_REPORT_ARTIFACTS = new RegExp(
+  process.env.TEST_REPORT_ARTIFACT_PATTERN || "junit|test[-_ ]?(?:results?|reports?)|surefire|(?:^|[-_ .])(?:trx|tap)(?:$|[-_ .])",
+  "i"
+);
+const TEST_REPORT_MAX_BYTES = Number(process.env.TEST_REPORT_MAX_BYTES ?? "25000000");
+const MAX_REPORT_ARTIFACTS = 5;
 
 function authorized(req: NextRequest) {
   return req.headers.get("authorization") === `Bearer ${process.env.CRON_SECRET}`;
 }
 
 
-async function streamToBuffer(stream: NodeJS.ReadableStream): Promise<Buffer> {
-  const chunks: Buffer[] = [];
-  for await (const chunk of stream) chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
-  return Buffer.concat(chunks);
-}
-
-
-function tailBytes(buf: Buffer, n: number): Buffer {
-  if (buf.length <= n) return buf;
-  return buf.subarray(buf.length - n);
+function clampInt(v: unknown, fallback: number, min: number, max: number) {
+  const n = typeof v === "number" && Number.isFinite(v) ? Math.floor(v) : fallback;
+  return Math.min(max, Math.max(min, n));
 }
 
 function sleep(ms: number) {
@@ -71,84 +104,105 @@ function isTransientGitHubError(e: unknown): boolean {
   return false;
 }
 
-async function unzipLogArchive(
-  zipBuffer: Buffer,
-  opts?: { maxFiles?: number; tailPerFileBytes?: number; maxCombinedBytes?: number }
-) {
-  const maxFiles = opts?.maxFiles ?? 40;
-  const tailPerFileBytes = opts?.tailPerFileBytes ?? 200_000;
-  const maxCombinedBytes = opts?.maxCombinedBytes ?? 2_000_000;
-
-  const files: Array<{ name: string; text: string }> = [];
-  let combinedBytes = 0;
-
-  const zip: yauzl.ZipFile = await new Promise((resolve, reject) => {
-    yauzl.fromBuffer(zipBuffer, { lazyEntries: true }, (err, zf) => {
-      if (err || !zf) return reject(err || new Error("Failed to open zip"));
-      resolve(zf);
-    });
-  });
-
-  await new Promise<void>((resolve, reject) => {
-    let count = 0;
-    zip.readEntry();
-
-    zip.on("entry", (entry: yauzl.Entry) => {
-      if (!entry.fileName.endsWith(".txt")) { zip.readEntry(); return; }
-      if (count >= maxFiles || combinedBytes >= maxCombinedBytes) { zip.close(); return resolve(); }
-
-      zip.openReadStream(entry, async (err, rs) => {
-        if (err || !rs) { zip.close(); return reject(err || new Error("Failed to read entry stream")); }
-        try {
-          const buf = await streamToBuffer(rs);
-          const slice = tailBytes(buf, tailPerFileBytes);
-          combinedBytes += slice.length;
-          files.push({ name: entry.fileName, text: slice.toString("utf8") });
-
-          count += 1;
-          if (count >= maxFiles || combinedBytes >= maxCombinedBytes) { zip.close(); return resolve(); }
-          zip.readEntry();
-        } catch (e) {
-          zip.close();
-          reject(e);
-        }
-      });
-    });
-
-    zip.on("end", () => resolve());
-    zip.on("close", () => resolve());
-    zip.on("error", (e) => reject(e));
-  });
-
-  const combined = files.map(f => `===== ${f.name} =====\n${f.text}`).join("\n\n");
-  return combined;
+/** The identifiers ingestion persisted for a failure (see logBuildFailure) */
+type FailureRef = {
+  failure_id: number;
+  repo_owner: string;
+  repo_name: string;
+  pr_number: number | null;
+  commit_sha: string;
+  head_branch?: string | null;
+  run_id?: string | null;
+  run_attempt?: number | null;
+  job_id?: number | null;
+};
+
+async function downloadJobLogText(octo: Octokit, owner: string, repo: string, jobId: number): Promise<string> {
+  const { data } = await octo.rest.actions.downloadJobLogsForWorkflowRun({ owner, repo, job_id: jobId });
+  const buf = await toBufferFromOctokit(data);
+  return buf.subarray(Math.max(0, buf.length - JOB_LOG_TAIL_BYTES)).toString("utf8");
 }
 
-async function downloadLogsZipWithRetry(
+/** Authoritative job/step conclusions + timing for a run (or one attempt of it) */
+async function listRunJobs(
   octo: Octokit,
   owner: string,
   repo: string,
-  prNumber: number,
-  headSha: string
-): Promise<Buffer> {
+  runId: number,
+  attempt?: number | null
+): Promise<JobMetadata[]> {
+  try {
+    const { data } = attempt
+      ? await octo.rest.actions.listJobsForWorkflowRunAttempt({
+          owner, repo, run_id: runId, attempt_number: attempt, per_page: 100,
+        })
+      : await octo.rest.actions.listJobsForWorkflowRun({
+          owner, repo, run_id: runId, filter: "latest", per_page: 100,
+        });
+    return (data.jobs ?? []) as JobMetadata[];
+  } catch (e) {
+    if (!isTransientGitHubError(e)) {
+      console.warn("[graph-run] listing run jobs failed; using log-derived conclusions", e);
+      return [];
+    }
+    throw e;
+  }
+}
+
+/**
+ * Fetch the logs of the failure's job(s):
+ *  1) exact job (check_run delivery) → that job's logs via the jobs API
+ *  2) exact run (workflow_run delivery) → logs of its failed jobs
+ *  3) no ids persisted → heuristic run lookup by PR (or branch, for push
+ *     builds) + head SHA, then as 2)
+ * Falls back to the whole run archive when no job is marked as failed.
+ */
+async function fetchFailureJobs(octo: Octokit, failure: FailureRef): Promise<LogJob[]> {
+  const owner = failure.repo_owner;
+  const repo = failure.repo_name;
+
+  if (failure.job_id) {
+    const { data: job } = await octo.rest.actions.getJobForWorkflowRun({ owner, repo, job_id: failure.job_id });
+    const text = await downloadJobLogText(octo, owner, repo, failure.job_id);
+    return [jobFromLog(job as JobMetadata, text)];
+  }
+
+  let runId = failure.run_id ? Number(failure.run_id) : null;
+  if (!runId) {
+    const run = failure.pr_number != null
+      ? await findLatestRunForPR(octo, owner, repo, failure.pr_number, failure.commit_sha)
+      : await findLatestRunForCommit(octo, owner, repo, failure.commit_sha, failure.head_branch);
+    if (!run) throw new Error(`No workflow run found for head_sha=${failure.commit_sha}`);
+    runId = run.id as number;
+  }
+
+  const meta = await listRunJobs(octo, owner, repo, runId, failure.run_attempt);
+  const failed = meta.filter((j) => isFailedConclusion(j.conclusion)).slice(0, MAX_FAILED_JOBS);
+  if (failed.length) {
+    const jobs: LogJob[] = [];
+    for (const j of failed) jobs.push(jobFromLog(j, await downloadJobLogText(octo, owner, repo, j.id)));
+    return jobs;
+  }
+
+  // Octokit may return Buffer, stream, or ArrayBuffer
+  const { data } = await octo.rest.actions.downloadWorkflowRunLogs({ owner, repo, run_id: runId });
+  const buf = await toBufferFromOctokit(data);
+  if (!buf?.length) throw new Error("Empty logs archive");
+
+  const files = await unzipLogArchive(buf, {
+    maxFiles: 200,
+    tailPerFileBytes: 200_000,
+    maxCombinedBytes: 4_000_000,
+  });
+  return applyJobMetadata(segmentLogArchive(files), meta);
+}
+
+async function fetchFailureJobsWithRetry(octo: Octokit, failure: FailureRef): Promise<LogJob[]> {
   let lastErr: unknown = null;
 
   for (let attempt = 1; attempt <= LOG_MAX_RETRIES; attempt++) {
     try {
-      // 1) Resolve the most recent PR run for this head sha
-      const run = await findLatestRunForPR(octo, owner, repo, prNumber, headSha);
-      if (!run) throw new Error(`No PR workflow run found for head_sha=${headSha}`);
-
-      // 2) Download logs (Octokit may return Buffer, stream, or ArrayBuffer)
-      const { data } = await octo.rest.actions.downloadWorkflowRunLogs({
-        owner,
-        repo,
-        run_id: run.id,
-      });
-
-      const buf = await toBufferFromOctokit(data);
-      if (!buf?.length) throw new Error("Empty logs archive");
-      return buf;
+      return await fetchFailureJobs(octo, failure);
     } catch (e) {
       lastErr = e;
       const transient = isTransientGitHubError(e);
@@ -165,132 +219,341 @@ async function downloadLogsZipWithRetry(
   }
 
   // Should not reach here; throw last error just in case
-  throw lastErr ?? new Error("downloadLogsZipWithRetry: failed with unknown error");
+  throw lastErr ?? new Error("fetchFailureJobsWithRetry: failed with unknown error");
 }
 
-export async function POST(req: NextRequest) {
-  if (!authorized(req)) {
-    return NextResponse.json({ error: "forbidden" }, { status: 403 });
+/**
+ * Logs for a whole incident: the leader's job(s) plus every coalesced
+ * member's, de-duplicated by job. A member whose logs can't be fetched is
+ * skipped; the leader's must succeed.
+ */
+async function fetchIncidentJobs(octo: Octokit, leader: FailureRef, members: FailureRef[]): Promise<LogJob[]> {
+  if (!members.length) return fetchFailureJobsWithRetry(octo, leader);
+
+  const refKey = (r: FailureRef) => (r.job_id ? `job:${r.job_id}` : `run:${r.run_id ?? "?"}:${r.run_attempt ?? 1}`);
+  const seenRefs = new Set<string>();
+  const seenJobs = new Set<string>();
+  const jobs: LogJob[] = [];
+
+  for (const ref of [leader, ...members]) {
+    const rk = refKey(ref);
+    if (ref !== leader && seenRefs.has(rk)) continue;
+    seenRefs.add(rk);
+
+    let got: LogJob[];
+    try {
+      got = await fetchFailureJobsWithRetry(octo, ref);
+    } catch (e) {
+      if (ref === leader) throw e;
+      console.warn(`[graph-run] incident member ${rk} logs skipped:`, e);
+      continue;
+    }
+    for (const j of got) {
+      const jk = j.id != null ? `id:${j.id}` : `name:${j.name}`;
+      if (seenJobs.has(jk)) continue;
+      seenJobs.add(jk);
+      jobs.push(j);
+    }
   }
+  return jobs.slice(0, MAX_FAILED_JOBS);
+}
 
-  // Claim a row
-  const t = await sequelize.transaction();
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  let f: any | null = null;
-  try {
-    f = await BuildFailure.findOne({
-      where: { status: "new" },
-      order: [["failure_timestamp", "ASC"]],
-      transaction: t,
-      lock: t.LOCK.UPDATE,
-    });
-    if (!f) {
-      await t.rollback();
-      return NextResponse.json({ ok: true, msg: "idle" });
+/**
+ * Failing test cases from the report artifacts of the incident's run(s).
+ * Best effort: artifacts are optional evidence, so errors only log.
+ */
+async function fetchTestReports(octo: Octokit, refs: FailureRef[]): Promise<FailingTestCase[]> {
+  const owner = refs[0].repo_owner;
+  const repo = refs[0].repo_name;
+  const runIds = new Set<number>();
+  for (const r of refs) {
+    try {
+      if (r.run_id) runIds.add(Number(r.run_id));
+      else if (r.job_id) {
+        const { data: job } = await octo.rest.actions.getJobForWorkflowRun({ owner, repo, job_id: r.job_id });
+        runIds.add(job.run_id);
+      }
+    } catch (e) {
+      console.warn("[graph-run] resolving run for test reports failed:", e);
     }
-    await f.update({ status: "analyzing" }, { transaction: t });
-    await t.commit();
-  } catch (err) {
-    await t.rollback();
-    console.error("graph-run claim error:", err);
-    return NextResponse.json({ ok: false, error: "claim_failed" }, { status: 500 });
   }
 
+  const cases: FailingTestCase[] = [];
+  for (const run_id of runIds) {
+    try {
+      const { data } = await octo.rest.actions.listWorkflowRunArtifacts({ owner, repo, run_id, per_page: 100 });
+      const reports = data.artifacts
+        .filter((a) => !a.expired && TEST_REPORT_ARTIFACTS.test(a.name) && a.size_in_bytes <= TEST_REPORT_MAX_BYTES)
+        .slice(0, MAX_REPORT_ARTIFACTS);
+      for (const a of reports) {
+        const { data: zip } = await octo.rest.actions.downloadArtifact({
+          owner, repo, artifact_id: a.id, archive_format: "zip",
+        });
+        cases.push(...(await readTestReportArchive(await toBufferFromOctokit(zip), a.name)));
+      }
+    } catch (e) {
+      console.warn(`[graph-run] test reports for run ${run_id} skipped:`, e);
+    }
+  }
+  return cases;
+}
+
+type AnalysisResult = {
+  failure_id: number;
+  ok: boolean;
+  incident_size?: number;
+  coalesced_into?: number;
+  loops?: number;
+  status?: string | null;
+  triage?: string;
+  verification?: string;
+  error?: string;
+};
+
+/**
+ * Analyze one claimed failure: fetch its logs, run the graph, stage the
+ * review. Keeps the lease alive while it works; on error the row goes back
+ * to 'new' (or 'failed') via releaseBuildFailure.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function analyzeFailure(f: any, workerId: string): Promise<AnalysisResult> {
+  const heartbeat = setInterval(() => {
+    heartbeatBuildFailure(f.failure_id, workerId)
+      .then((held) => { if (!held) console.warn(`[graph-run] lost lease on failure ${f.failure_id}`); })
+      .catch((e) => console.warn("[graph-run] heartbeat failed:", e));
+  }, Math.max(5_000, Math.floor(ANALYSIS_LEASE_MS / 3)));
+
   try {
     const failure = f.toJSON() as {
       failure_id: number;
       repo_owner: string;
       repo_name: string;
-      pr_number: number;
+      pr_number: number | null;
       commit_sha: string;
+      head_branch?: string | null;
+      run_id?: string | null;
+      run_attempt?: number | null;
+      job_id?: number | null;
       log_content?: string | null;
       installation_id?: number | null;
       error_signature_v1?: string | null;
       error_signature_v2?: string | null;
       norm_tail?: string | null;
+      attempt_count?: number | null;
     };
 
+    // Fold duplicates of this PR head into one incident (or give this row up
+    // to an incident that already exists) before doing any work
+    const leaderId = await joinIncident(failure, workerId);
+    if (leaderId !== failure.failure_id) {
+      return { failure_id: failure.failure_id, ok: false, status: "coalesced", coalesced_into: leaderId };
+    }
+    let members = (await incidentMembers(failure.failure_id)).map((m) => m.toJSON() as FailureRef);
+
     const octo =
       failure.installation_id != null
         ? await getOctokitForInstallation(Number(failure.installation_id))
         : await getOctokitForRepo(failure.repo_owner, failure.repo_name);
 
+    // A failure of this incident that arrives mid-analysis joins it: redo the
+    // analysis once with its logs rather than reviewing the same head twice
+    let result: Awaited<ReturnType<typeof ResolvGraphApp.invoke>>;
+    for (let pass = 0; ; pass++) {
+      // --- Download + unzip logs; then backfill tail + norm + signatures ---
+      try {
+        const jobs = await fetchIncidentJobs(octo, failure, members);
+
+        // Hand the failing step(s) downstream instead of an arbitrary tail
+        const sections = failingSections(jobs);
+        const tailed = renderSections(sections, jobs, 800);
+        const norm = normalize(tailLines(renderSections(sections, jobs, 300), 300));
+
+        // always from the downloaded logs: ingest only ever saw the webhook excerpt
+        const sigV1 = norm ? sha1(norm) : null;
+        const sigV2 = norm ? errorSignatureV2(tailed, norm) : null;
+        const reports = await fetchTestReports(octo, [failure, ...members]);
+
+        await f.update({
+          log_content: tailed,
+          norm_tail: norm || null,
+          error_signature_v1: sigV1,
+          error_signature_v2: sigV2,
+          log_steps_json: jsonClamp(summarizeJobs(jobs), 200_000),
+          test_reports_json: reports.length ? JSON.stringify(reports) : null,
+        });
+      } catch (e) {
+        console.warn("log download/unzip failed (after retries):", e);
+        // transient → another attempt later; anything else won't get better
+        const status = await releaseBuildFailure(failure, workerId, e, { retryable: isTransientGitHubError(e) });
+        return { failure_id: failure.failure_id, ok: false, status, error: String(e) };
+      }
 
-    // --- Download + unzip logs; then backfill tail + norm + signatures ---
-    try {
-      const zipBuf = await downloadLogsZipWithRetry(
-        octo,
-        failure.repo_owner,
-        failure.repo_name,
-        failure.pr_number,
-        failure.commit_sha
-      );
-
-      const combined = await unzipLogArchive(zipBuf, {
-        maxFiles: 40,
-        tailPerFileBytes: 200_000,
-        maxCombinedBytes: 2_000_000,
-      });
-
-      const tailed = tailLines(combined, 800);
-      const norm = normalize(tailLines(combined, 300));
-
-      const sigV1 = failure.error_signature_v1 ?? (norm ? sha1(norm) : null);
-      const sigV2 = failure.error_signature_v2 ?? (norm ? sha1(templateize(norm)) : null);
-
-      await f.update({
-        log_content: tailed,
-        norm_tail: norm || null,
-        error_signature_v1: sigV1,
-        error_signature_v2: sigV2,
-      });
-    } catch (e) {
-      console.warn("log download/unzip skipped (after retries):", e);
-      return NextResponse.json({ ok: false, error: String(e) }, { status: 500 });
-    }
 
+      const fresh = (await BuildFailure.findByPk(failure.failure_id))?.toJSON() ?? failure;
 
-    const fresh = (await BuildFailure.findByPk(failure.failure_id))?.toJSON() ?? failure;
-
-    // Run the LangGraph app
-    const result = await ResolvGraphApp.invoke({
-      repo_owner: fresh.repo_owner,
-      repo_name: fresh.repo_name,
-      pr_number: fresh.pr_number,
-      head_sha: fresh.commit_sha,
-      log_content: fresh.log_content ?? "",
-      failure_id: fresh.failure_id,
-      installation_id: fresh.installation_id ?? null,
-      insight_loops: 0,
-      messages: [] as BaseMessage[],
-    } as GraphInit);
-
-    await f.update({ status: "proposed" });
-
-    const base =
-      process.env.NEXT_PUBLIC_BASE_URL ||
-      `${req.headers.get("x-forwarded-proto") || (process.env.NODE_ENV === "development" ? "http" : "https")}://${req.headers.get("host")}`;
-
-    console.log(`[Graph-run] base url: ${base}`)
-    const secret = process.env.CRON_SECRET;
-    if (base && secret) {
-      fetch(`${base}/api/dispatch-outbox`, {
-        method: "POST",
-        headers: { Authorization: `Bearer ${secret}` },
-        keepalive: true,
-      }).catch(() => {});
+      // Muted via `/resolvci ignore <signature>` → no review
+      const muted = await findIgnoredSignature(fresh.repo_owner, fresh.repo_name, [
+        fresh.error_signature_v1,
+        fresh.error_signature_v2,
+      ]);
+      if (muted) {
+        await BuildFailure.update(
+          { status: "skipped", last_error: `error signature ${muted} is ignored`, claimed_by: null, lease_expires_at: null },
+          { where: { failure_id: fresh.failure_id, status: "analyzing", claimed_by: workerId } }
+        );
+        return { failure_id: fresh.failure_id, ok: true, status: "skipped" };
+      }
+
+      const settings = await getRepoSettings(fresh.repo_owner, fresh.repo_name);
+
+      // Run the LangGraph app
+      result = await ResolvGraphApp.invoke({
+        repo_owner: fresh.repo_owner,
+        repo_name: fresh.repo_name,
+        pr_number: fresh.pr_number ?? null,
+        head_sha: fresh.commit_sha,
+        head_branch: fresh.head_branch ?? null,
+        // PR → review or check run (per repo); no PR (push/schedule builds) → commit comment / issue
+        target: actuatorTargetFor(fresh.pr_number ?? null, settings.review_channel),
+        log_content: fresh.log_content ?? "",
+        failure_id: fresh.failure_id,
+        installation_id: fresh.installation_id ?? null,
+        error_signature: fresh.error_signature_v2 ?? fresh.error_signature_v1 ?? null,
+        insight_loops: 0,
+        messages: [] as BaseMessage[],
+        // first pass: stop short of staging if members joined meanwhile; the re-run stages regardless
+        incident_members: pass === 0 ? members.map((m) => m.failure_id) : null,
+      } as GraphInit);
+
+      if (!result?.incident_grew) break;
+      members = (await incidentMembers(failure.failure_id)).map((m) => m.toJSON() as FailureRef);
     }
 
-    return NextResponse.json({
+    // Likely flaky / red base branch → a note was staged instead of a proposal
+    const triage: BuildFailureTriage | null = result?.flaky?.likely_flaky
+      ? "flaky"
+      : result?.analysis?.preexisting?.preexisting
+        ? "preexisting"
+        : null;
+    const [done] = await BuildFailure.update(
+      triage
+        ? { status: "skipped", triage, claimed_by: null, lease_expires_at: null }
+        : { status: "proposed", triage: null, claimed_by: null, lease_expires_at: null },
+      // still claimed by us → not superseded by a newer push meanwhile (that clears claimed_by)
+      { where: { failure_id: failure.failure_id, claimed_by: workerId } }
+    );
+    // joined after the last pass read its members → not in this review; analyzed on their own
+    if (done) await releaseIncidentMembers([failure.failure_id], members.map((m) => m.failure_id));
+
+    return {
+      failure_id: failure.failure_id,
       ok: true,
-      failure_id: fresh.failure_id,
       loops: result?.insight_loops ?? 0,
-    });
+      incident_size: members.length + 1,
+      ...(triage ? { status: "skipped", triage } : {}),
+      ...(result?.verification ? { verification: result.verification.status } : {}),
+    };
   } catch (err: unknown) {
     console.error("graph-run execution error:", err);
+    let status: string | null = null;
     try {
-      await f.update({ status: "skipped" });
-    } catch {}
-    return NextResponse.json({ ok: false, error: String(err) }, { status: 500 });
+      status = await releaseBuildFailure(f.toJSON(), workerId, err);
+    } catch (e) {
+      console.warn("[graph-run] releasing failure failed; the lease sweep will pick it up:", e);
+    }
+    return { failure_id: f.failure_id, ok: false, status, error: String(err) };
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/** Run `fn` over `items` with at most `concurrency` in flight */
+async function runPool<T, R>(items: T[], concurrency: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const lanes = Array.from({ length: Math.min(concurrency, items.length) }, async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]);
+    }
+  });
+  await Promise.all(lanes);
+  return results;
+}
+
+function triggerDispatch(req: NextRequest) {
+  const base =
+    process.env.NEXT_PUBLIC_BASE_URL ||
+    `${req.headers.get("x-forwarded-proto") || (process.env.NODE_ENV === "development" ? "http" : "https")}://${req.headers.get("host")}`;
+
+  console.log(`[Graph-run] base url: ${base}`)
+  const secret = process.env.CRON_SECRET;
+  if (base && secret) {
+    fetch(`${base}/api/dispatch-outbox`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${secret}` },
+      keepalive: true,
+    }).catch(() => {});
+  }
+}
+
+/**
+ * POST /api/graph-run
+ * Body: optional { mode?: "single" | "worker", concurrency?: number, batch?: number }
+ *  - single (default): claim and analyze one failure
+ *  - worker: claim up to `batch` failures (round-robin across repos) and
+ *    analyze them with up to `concurrency` in flight
+ * Auth: Authorization: Bearer <CRON_SECRET>
+ */
+export async function POST(req: NextRequest) {
+  if (!authorized(req)) {
+    return NextResponse.json({ error: "forbidden" }, { status: 403 });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const worker = body?.mode === "worker";
+  const batch = worker ? clampInt(body?.batch, WORKER_BATCH, 1, 50) : 1;
+  const concurrency = worker ? clampInt(body?.concurrency, WORKER_CONCURRENCY, 1, 10) : 1;
+
+  // Put rows orphaned by a timed-out/crashed run back in the queue first
+  try {
+    const swept = await reclaimExpiredBuildFailures();
+    if (swept.requeued || swept.failed) console.warn("[graph-run] reclaimed expired analyses", swept);
+  } catch (err) {
+    console.warn("[graph-run] lease sweep failed:", err);
+  }
+
+  // Claim rows (under a lease, renewed by a heartbeat while each is analyzed)
+  const workerId = `graph-run:${randomUUID()}`;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let rows: any[];
+  try {
+    rows = await claimBuildFailures(workerId, batch);
+  } catch (err) {
+    console.error("graph-run claim error:", err);
+    return NextResponse.json({ ok: false, error: "claim_failed" }, { status: 500 });
   }
+  if (!rows.length) return NextResponse.json({ ok: true, msg: "idle" });
+
+  const results = await runPool(rows, concurrency, (f) => analyzeFailure(f, workerId));
+  if (results.some((r) => r.ok)) triggerDispatch(req);
+
+  if (!worker) {
+    const [r] = results;
+    if (r.coalesced_into) {
+      return NextResponse.json({ ok: true, failure_id: r.failure_id, coalesced_into: r.coalesced_into });
+    }
+    return r.ok
+      ? NextResponse.json({
+          ok: true, failure_id: r.failure_id, status: r.status, triage: r.triage, loops: r.loops, incident_size: r.incident_size,
+        })
+      : NextResponse.json({ ok: false, failure_id: r.failure_id, status: r.status, error: r.error }, { status: 500 });
+  }
+
+  return NextResponse.json({
+    ok: true,
+    claimed: rows.length,
+    proposed: results.filter((r) => r.ok).length,
+    results,
+  });
 }
@@ -0,0 +1,55 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { InstallationSetting, getInstallationSettings, type KnowledgeScope } from "@/lib/tidb";
+import { isCronAuthorized } from "@/lib/auth";
+
+const SCOPES: KnowledgeScope[] = ["repo", "owner", "global"];
+
+/**
+ * GET /api/installation-settings?installation_id=<id>
+ * Auth: Authorization: Bearer <CRON_SECRET>
+ */
+export async function GET(req: NextRequest) {
+  if (!isCronAuthorized(req)) {
+    return NextResponse.json({ ok: false, error: "forbidden" }, { status: 403 });
+  }
+  const installation_id = Number(req.nextUrl.searchParams.get("installation_id"));
+  if (!Number.isInteger(installation_id) || installation_id <= 0) {
+    return NextResponse.json({ ok: false, error: "installation_id is required" }, { status: 400 });
+  }
+  return NextResponse.json({ ok: true, installation_id, settings: await getInstallationSettings(installation_id) });
+}
+
+/**
+ * POST /api/installation-settings
+ * Body: { installation_id: number; knowledge_scope: "repo" | "owner" | "global" }
+ * Auth: Authorization: Bearer <CRON_SECRET>
+ */
+export async function POST(req: NextRequest) {
+  if (!isCronAuthorized(req)) {
+    return NextResponse.json({ ok: false, error: "forbidden" }, { status: 403 });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const installation_id = Number(body?.installation_id);
+  const knowledge_scope = body?.knowledge_scope;
+  if (!Number.isInteger(installation_id) || installation_id <= 0 || !SCOPES.includes(knowledge_scope)) {
+    return NextResponse.json(
+      { ok: false, error: `installation_id and knowledge_scope (${SCOPES.join("|")}) are required` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await InstallationSetting.upsert({ installation_id, knowledge_scope, updated_at: new Date() });
+    return NextResponse.json({ ok: true, installation_id, settings: await getInstallationSettings(installation_id) });
+  } catch (err: unknown) {
+    let message: string = String(err)
+    if (err instanceof Error)
+      message = err?.message
+    console.error("[installation-settings] upsert failed:", err);
+    return NextResponse.json({ ok: false, error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,77 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { Op } from "sequelize";
+import { OutboundAction } from "@/lib/tidb";
+import { isCronAuthorized } from "@/lib/auth";
+
+const DEFAULT_LIMIT = 50;
+
+/**
+ * GET /api/outbox-dead?limit=<n>
+ * Lists dead-lettered outbound actions (newest first), without payloads.
+ * Auth: Authorization: Bearer <CRON_SECRET>
+ */
+export async function GET(req: NextRequest) {
+  if (!isCronAuthorized(req)) {
+    return NextResponse.json({ ok: false, error: "forbidden" }, { status: 403 });
+  }
+  const limit = Math.min(200, Math.max(1, Number(req.nextUrl.searchParams.get("limit") ?? DEFAULT_LIMIT) || DEFAULT_LIMIT));
+
+  try {
+    const rows = await OutboundAction.findAll({
+      attributes: ["id", "action_type", "head_sha", "installation_id", "attempt_count", "last_error", "created_at"],
+      where: { status: "dead" },
+      order: [["id", "DESC"]],
+      limit,
+    });
+    return NextResponse.json({ ok: true, count: rows.length, items: rows.map((r) => r.toJSON()) });
+  } catch (err: unknown) {
+    let message: string = String(err)
+    if (err instanceof Error)
+      message = err?.message
+    console.error("[outbox-dead] list failed:", err);
+    return NextResponse.json({ ok: false, error: message }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/outbox-dead
+ * Body: { action: "requeue" | "discard"; ids: number[] }
+ *  - requeue: back to 'staged' with a fresh attempt budget
+ *  - discard: terminal 'discarded' (kept for audit; action_hash stays taken)
+ * Auth: Authorization: Bearer <CRON_SECRET>
+ */
+export async function POST(req: NextRequest) {
+  if (!isCronAuthorized(req)) {
+    return NextResponse.json({ ok: false, error: "forbidden" }, { status: 403 });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const ids: number[] = Array.isArray(body?.ids) ? body.ids.map(Number).filter(Number.isFinite) : [];
+  if (!ids.length || (body?.action !== "requeue" && body?.action !== "discard")) {
+    return NextResponse.json(
+      { ok: false, error: "body must be { action: 'requeue' | 'discard', ids: number[] }" },
+      { status: 400 }
+    );
+  }
+
+  const values =
+    body.action === "requeue"
+      ? { status: "staged", attempt_count: 0, next_attempt_at: null, claimed_by: null, lease_expires_at: null }
+      : { status: "discarded", next_attempt_at: null };
+
+  try {
+    const [updated] = await OutboundAction.update(values, {
+      where: { id: { [Op.in]: ids }, status: "dead" },
+    });
+    return NextResponse.json({ ok: true, action: body.action, updated });
+  } catch (err: unknown) {
+    let message: string = String(err)
+    if (err instanceof Error)
+      message = err?.message
+    console.error("[outbox-dead] update failed:", err);
+    return NextResponse.json({ ok: false, error: message }, { status: 500 });
+  }
+}
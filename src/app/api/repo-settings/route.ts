@@ -0,0 +1,55 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { RepoSetting, getRepoSettings, type ReviewChannel } from "@/lib/tidb";
+import { isCronAuthorized } from "@/lib/auth";
+
+const CHANNELS: ReviewChannel[] = ["pr_review", "check_run"];
+
+/**
+ * GET /api/repo-settings?owner=<owner>&repo=<repo>
+ * Auth: Authorization: Bearer <CRON_SECRET>
+ */
+export async function GET(req: NextRequest) {
+  if (!isCronAuthorized(req)) {
+    return NextResponse.json({ ok: false, error: "forbidden" }, { status: 403 });
+  }
+  const owner = req.nextUrl.searchParams.get("owner");
+  const repo = req.nextUrl.searchParams.get("repo");
+  if (!owner || !repo) {
+    return NextResponse.json({ ok: false, error: "owner and repo are required" }, { status: 400 });
+  }
+  return NextResponse.json({ ok: true, owner, repo, settings: await getRepoSettings(owner, repo) });
+}
+
+/**
+ * POST /api/repo-settings
+ * Body: { owner: string; repo: string; review_channel: "pr_review" | "check_run" }
+ * Auth: Authorization: Bearer <CRON_SECRET>
+ */
+export async function POST(req: NextRequest) {
+  if (!isCronAuthorized(req)) {
+    return NextResponse.json({ ok: false, error: "forbidden" }, { status: 403 });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const { owner, repo, review_channel } = body ?? {};
+  if (typeof owner !== "string" || typeof repo !== "string" || !CHANNELS.includes(review_channel)) {
+    return NextResponse.json(
+      { ok: false, error: `owner, repo and review_channel (${CHANNELS.join("|")}) are required` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await RepoSetting.upsert({ repo_owner: owner, repo_name: repo, review_channel, updated_at: new Date() });
+    return NextResponse.json({ ok: true, owner, repo, settings: await getRepoSettings(owner, repo) });
+  } catch (err: unknown) {
+    let message: string = String(err)
+    if (err instanceof Error)
+      message = err?.message
+    console.error("[repo-settings] upsert failed:", err);
+    return NextResponse.json({ ok: false, error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,11 @@
+import type { NextRequest } from "next/server";
+
+/**
+ * Internal routes (cron jobs, admin calls) authenticate with `Authorization: Bearer <CRON_SECRET>`.
+ * Fails closed: with CRON_SECRET unset nothing is authorized.
+ */
+export function isCronAuthorized(req: NextRequest): boolean {
+  const hdr = req.headers.get("authorization") || "";
+  const token = hdr.startsWith("Bearer ") ? hdr.slice(7) : hdr;
+  return !!token && token === process.env.CRON_SECRET;
+}
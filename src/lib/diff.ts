@@ -0,0 +1,250 @@
+import { relPath } from "@/lib/log-parsers/common";
+
+/**
+ * Unified diffs (GitHub's per-file `patch`) → hunks and commentable lines,
+ * and "blame the PR diff": map `file:line` locations from the log / test
+ * reports onto the hunks the PR changed and rank them by how likely they
+ * caused the failure.
+ */
+
+export type DiffHunk = {
+  old_start: number;
+  old_lines: number;
+  new_start: number;
+  new_lines: number;
+  header: string;             // text after the closing @@ (enclosing function, when git found one)
+  added: number[];            // right-side line numbers of `+` lines
+  deleted_at: number[];       // right-side line a `-` run sits before
+  text: string;               // the hunk body, `@@` line included
+};
+
+export type LocationSource = "report" | "finding" | "log";
+
+export type BlameLocation = {
+  file: string;
+  line: number | null;
+  source: LocationSource;
+};
+
+export type CulpritHunk = {
+  path: string;
+  start_line: number;         // right side (head) range of the hunk
+  end_line: number;
+  header: string;
+  score: number;              // 0..1, noisy-or over the matching locations
+  line: number;               // best matching head line inside the hunk
+  reason: "added_line" | "in_hunk" | "near_hunk" | "same_file";
+  evidence: BlameLocation[];  // strongest matches first
+  excerpt: string;
+};
+
+const NEAR_LINES = 10;
+const MAX_EXCERPT_LINES = 30;
+const MAX_EVIDENCE = 3;
+
+// How much a location counts, by where it came from
+const SOURCE_WEIGHT: Record<LocationSource, number> = { report: 1, finding: 0.9, log: 0.5 };
+// …and by how it relates to the hunk
+const MATCH_WEIGHT: Record<CulpritHunk["reason"], number> = {
+  added_line: 1,
+  in_hunk: 0.6,
+  near_hunk: 0.3,
+  same_file: 0.1,
+};
+
+/* ============================== Parsing ============================== */
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@ ?(.*)$/;
+
+/** Hunks of one file's patch; tolerant of a missing `\ No newline` marker or a truncated tail */
+export function parsePatch(patch: string | null | undefined): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let cur: DiffHunk | null = null;
+  let right = 0;
+  const body: string[] = [];
+
+  const close = () => {
+    if (cur) hunks.push({ ...cur, text: body.join("\n") });
+    body.length = 0;
+  };
+
+  for (const ln of (patch ?? "").replace(/\r\n/g, "\n").split("\n")) {
+    const h = HUNK_HEADER.exec(ln);
+    if (h) {
+      close();
+      cur = {
+        old_start: Number(h[1]),
+        old_lines: h[2] == null ? 1 : Number(h[2]),
+        new_start: Number(h[3]),
+        new_lines: h[4] == null ? 1 : Number(h[4]),
+        header: h[5].trim(),
+        added: [],
+        deleted_at: [],
+        text: "",
+      };
+      right = cur.new_start;
+      body.push(ln);
+      continue;
+    }
+    if (!cur) continue;
+    body.push(ln);
+    if (ln.startsWith("+")) cur.added.push(right++);
+    else if (ln.startsWith("-")) {
+      if (cur.deleted_at[cur.deleted_at.length - 1] !== right) cur.deleted_at.push(right);
+    } else if (!ln.startsWith("\\")) right++;
+  }
+  close();
+  return hunks;
+}
+
+/** Lines a review comment may target, per side (RIGHT = head, LEFT = base) */
+export type CommentableLines = {
+  right: Set<number>;
+  left: Set<number>;
+  hunks: Array<{ right: Set<number>; left: Set<number> }>;
+};
+
+export type DiffSide = "RIGHT" | "LEFT";
+
+/**
+ * Commentable lines of one file's patch: `+` and context lines on the RIGHT,
+ * `-` and context lines on the LEFT — nothing outside the hunks.
+ */
+export function commentableLines(patch: string | null | undefined): CommentableLines {
+  const out: CommentableLines = { right: new Set(), left: new Set(), hunks: [] };
+  let cur: CommentableLines["hunks"][number] | null = null;
+  let right = 0;
+  let left = 0;
+
+  for (const ln of (patch ?? "").replace(/\r\n/g, "\n").split("\n")) {
+    const h = HUNK_HEADER.exec(ln);
+    if (h) {
+      cur = { right: new Set(), left: new Set() };
+      out.hunks.push(cur);
+      left = Number(h[1]);
+      right = Number(h[3]);
+      continue;
+    }
+    if (!cur || ln === "" || ln.startsWith("\\")) continue;   // "" = trailing newline (context lines start with " ")
+    if (ln.startsWith("+")) cur.right.add(right++);
+    else if (ln.startsWith("-")) cur.left.add(left++);
+    else {
+      cur.right.add(right++);
+      cur.left.add(left++);
+    }
+  }
+
+  for (const h of out.hunks) {
+    h.right.forEach((n) => out.right.add(n));
+    h.left.forEach((n) => out.left.add(n));
+  }
+  return out;
+}
+
+/** Index of the hunk holding every line of start..end on `side`, or -1 */
+export function hunkContaining(lines: CommentableLines, side: DiffSide, start: number, end = start): number {
+  return lines.hunks.findIndex((h) => {
+    const set = side === "LEFT" ? h.left : h.right;
+    for (let n = start; n <= end; n++) if (!set.has(n)) return false;
+    return true;
+  });
+}
+
+/** Nearest commentable line to `line` on `side` within `maxDistance` (ties → the earlier line), or null */
+export function snapToCommentable(lines: CommentableLines, side: DiffSide, line: number, maxDistance: number): number | null {
+  const set = side === "LEFT" ? lines.left : lines.right;
+  if (set.has(line)) return line;
+  for (let d = 1; d <= maxDistance; d++) {
+    if (set.has(line - d)) return line - d;
+    if (set.has(line + d)) return line + d;
+  }
+  return null;
+}
+
+/** Does a (possibly partial or basename-only) path from a log name this repo file? */
+export function samePath(repoPath: string, logged: string) {
+  const a = relPath(repoPath.replace(/\\/g, "/"));
+  const b = relPath(logged.replace(/\\/g, "/"));
+  return a === b || a.endsWith(`/${b}`) || b.endsWith(`/${a}`);
+}
+
+/* ============================== Blame ============================== */
+
+function relate(h: DiffHunk, line: number | null): { reason: CulpritHunk["reason"]; distance: number } {
+  const end = h.new_start + Math.max(h.new_lines, 1) - 1;
+  if (line == null) return { reason: "same_file", distance: Infinity };
+  if (h.added.includes(line)) return { reason: "added_line", distance: 0 };
+  if (line >= h.new_start && line <= end) return { reason: "in_hunk", distance: 0 };
+  const distance = line < h.new_start ? h.new_start - line : line - end;
+  return { reason: distance <= NEAR_LINES ? "near_hunk" : "same_file", distance };
+}
+
+/**
+ * Rank the PR's changed hunks by culpability. Each location votes for the
+ * hunks of the changed file it names: an added line beats anywhere in the
+ * hunk beats just nearby; a far-away location only nudges the file's nearest
+ * hunk. Votes combine as a noisy-or, so several weak hits add up but never
+ * exceed 1.
+ */
+export function rankCulpritHunks(
+  files: Array<{ filename: string; patch?: string | null }>,
+  locations: BlameLocation[],
+  max = 5
+): CulpritHunk[] {
+  const seen = new Set<string>();
+  const locs = locations.filter((l) => {
+    const k = `${l.file}:${l.line ?? ""}`;
+    if (seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+
+  type Acc = { path: string; hunk: DiffHunk; miss: number; best: CulpritHunk["reason"]; line: number; evidence: Array<BlameLocation & { w: number }> };
+  const acc = new Map<string, Acc>();
+
+  for (const f of files) {
+    const mine = locs.filter((l) => samePath(f.filename, l.file));
+    if (!mine.length) continue;
+    const hunks = parsePatch(f.patch);
+    if (!hunks.length) continue;
+
+    for (const loc of mine) {
+      const rel = hunks.map((h) => ({ h, ...relate(h, loc.line) }));
+      // a far-away (or line-less) location only counts for the closest hunk of the file
+      const nearest = rel.reduce((a, b) => (b.distance < a.distance ? b : a));
+      for (const r of rel) {
+        if (r.reason === "same_file" && r !== nearest) continue;
+        const w = SOURCE_WEIGHT[loc.source] * MATCH_WEIGHT[r.reason];
+        const key = `${f.filename}@${r.h.new_start}`;
+        const a = acc.get(key) ?? {
+          path: f.filename, hunk: r.h, miss: 1, best: "same_file", line: r.h.added[0] ?? r.h.new_start, evidence: [],
+        };
+        a.miss *= 1 - w;
+        if (MATCH_WEIGHT[r.reason] > MATCH_WEIGHT[a.best]) {
+          a.best = r.reason;
+          if (loc.line != null && r.reason !== "same_file" && r.reason !== "near_hunk") a.line = loc.line;
+        }
+        a.evidence.push({ ...loc, w });
+        acc.set(key, a);
+      }
+    }
+  }
+
+  return [...acc.values()]
+    .map((a) => ({
+      path: a.path,
+      start_line: a.hunk.new_start,
+      end_line: a.hunk.new_start + Math.max(a.hunk.new_lines, 1) - 1,
+      header: a.hunk.header,
+      score: Number((1 - a.miss).toFixed(3)),
+      line: a.line,
+      reason: a.best,
+      evidence: a.evidence
+        .sort((x, y) => y.w - x.w)
+        .slice(0, MAX_EVIDENCE)
+        .map(({ file, line, source }) => ({ file, line, source })),
+      excerpt: a.hunk.text.split("\n").slice(0, MAX_EXCERPT_LINES).join("\n"),
+    }))
+    .sort((x, y) => y.score - x.score)
+    .slice(0, max);
+}
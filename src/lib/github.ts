@@ -12,10 +12,57 @@ export const app = new App({
   webhooks: { secret: normalizeKey(process.env.GITHUB_WEBHOOK_SECRET ?? "")},
 });
 
+/* ---------------------- Per-installation rate limiting ---------------------- */
+
+// Token bucket per installation in front of every REST call made through an
+// installation-Octokit, so a batch of concurrent analyses for one org can't
+// burn its API quota (or trip secondary rate limits). In-process only.
+// GITHUB_RATE_PER_SEC=0 disables it.
+const RATE_PER_SEC = Number(process.env.GITHUB_RATE_PER_SEC ?? "5");
+const RATE_BURST = Number(process.env.GITHUB_RATE_BURST ?? "10");
+
+type Bucket = { tokens: number; updated: number; queue: Promise<void> };
+const buckets = new Map<number, Bucket>();
+const throttledClients = new WeakSet<object>();
+
+function refill(b: Bucket) {
+  const now = Date.now();
+  b.tokens = Math.min(RATE_BURST, b.tokens + ((now - b.updated) / 1000) * RATE_PER_SEC);
+  b.updated = now;
+}
+
+/** Wait for a request slot for this installation (FIFO per installation) */
+function takeToken(installationId: number): Promise<void> {
+  let b = buckets.get(installationId);
+  if (!b) {
+    b = { tokens: RATE_BURST, updated: Date.now(), queue: Promise.resolve() };
+    buckets.set(installationId, b);
+  }
+  const bucket = b;
+  const turn = bucket.queue.then(async () => {
+    refill(bucket);
+    if (bucket.tokens < 1) {
+      await new Promise((r) => setTimeout(r, Math.ceil(((1 - bucket.tokens) / RATE_PER_SEC) * 1000)));
+      refill(bucket);
+    }
+    bucket.tokens -= 1;
+  });
+  bucket.queue = turn.catch(() => {});
+  return turn;
+}
+
+function throttled(octo: Octokit, installationId: number): Octokit {
+  if (RATE_PER_SEC > 0 && !throttledClients.has(octo)) {
+    octo.hook.before("request", () => takeToken(installationId));
+    throttledClients.add(octo);
+  }
+  return octo;
+}
+
 
 /** Direct installation-Octokit (use when you already have installation_id). */
 export async function getOctokitForInstallation(installationId: number) {
-  return app.getInstallationOctokit(installationId);
+  return throttled(await app.getInstallationOctokit(installationId), installationId);
 }
 
 /** Resolve installation for a repo, then return an installation-Octokit. */
@@ -24,7 +71,7 @@ export async function getOctokitForRepo(owner: string, repo: string) {
     "GET /repos/{owner}/{repo}/installation",
     { owner, repo }
   );
-  return app.getInstallationOctokit(data.id);
+  return throttled(await app.getInstallationOctokit(data.id), data.id);
 }
 
 /**
@@ -37,7 +84,7 @@ export async function getOctokitForContext(
 ) {
   if (installationId) {
     try {
-      return await app.getInstallationOctokit(installationId);
+      return throttled(await app.getInstallationOctokit(installationId), installationId);
     } catch {
       // fall back if stale/invalid
     }
@@ -46,10 +93,14 @@ export async function getOctokitForContext(
     "GET /repos/{owner}/{repo}/installation",
     { owner, repo }
   );
-  return app.getInstallationOctokit(data.id);
+  return throttled(await app.getInstallationOctokit(data.id), data.id);
 }
 
-// Find the newest workflow run for the specific PR + head_sha
+/**
+ * Find the newest workflow run for the specific PR + head_sha.
+ * Heuristic fallback only: prefer the run/job ids persisted at ingestion,
+ * since re-runs and matrix builds make "newest matching run" unreliable.
+ */
 export async function findLatestRunForPR(
   octo: Octokit,
   owner: string,
@@ -89,3 +140,64 @@ export async function findLatestRunForPR(
   return candidates[0]; // undefined if none
 }
 
+
+/**
+ * No-PR counterpart of findLatestRunForPR (push/schedule builds on a branch):
+ * newest workflow run for the head_sha, optionally restricted to a branch.
+ */
+export async function findLatestRunForCommit(
+  octo: Octokit,
+  owner: string,
+  repo: string,
+  headSha: string,
+  branch?: string | null
+) {
+  const { data } = await octo.rest.actions.listWorkflowRunsForRepo({
+    owner, repo, head_sha: headSha, per_page: 100,
+    ...(branch ? { branch } : {}),
+  });
+
+  const candidates = (data.workflow_runs ?? []).filter((r) => r.head_sha === headSha);
+  candidates.sort((a, b) =>
+    Date.parse(b.run_started_at ?? b.created_at) -
+    Date.parse(a.run_started_at ?? a.created_at)
+  );
+  return candidates[0]; // undefined if none
+}
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+/**
+ * Retry classification for GitHub API errors.
+ * Retryable: 429, 5xx, secondary rate limits (403 + rate-limit hint), network errors.
+ * Non-retryable: other 4xx (422 invalid payload, 404 gone, 401/403 permissions).
+ */
+export function isRetryableGitHubError(e: unknown): boolean {
+  const status = typeof (e as any)?.status === "number" ? ((e as any).status as number) : undefined;
+  if (status === undefined) {
+    // no HTTP status → network-level failure (or an unknown throw); worth another try
+    return true;
+  }
+  if (status === 429 || status >= 500) return true;
+  if (status === 403) {
+    const remaining = (e as any)?.response?.headers?.["x-ratelimit-remaining"];
+    return remaining === "0" || /rate limit/i.test(String((e as any)?.message ?? ""));
+  }
+  return false;
+}
+
+/**
+ * Server-provided wait hint (Retry-After / X-RateLimit-Reset), in ms, capped at
+ * `maxMs`. The reset header rides on every response, so it only counts when
+ * the rate limit was actually hit (remaining 0, or a 403/429).
+ */
+export function retryAfterMs(e: unknown, maxMs = Infinity): number | null {
+  const headers = (e as any)?.response?.headers ?? {};
+  const status = (e as any)?.status;
+  const ra = Number(headers["retry-after"]);
+  if (Number.isFinite(ra) && ra > 0) return Math.min(maxMs, ra * 1000);
+  const limited = headers["x-ratelimit-remaining"] === "0" || status === 403 || status === 429;
+  const reset = Number(headers["x-ratelimit-reset"]);
+  if (limited && Number.isFinite(reset) && reset > 0) return Math.min(maxMs, Math.max(0, reset * 1000 - Date.now()));
+  return null;
+}
+/* eslint-enable @typescript-eslint/no-explicit-any */
@@ -0,0 +1,68 @@
+import { type LogParser, type LogFinding, finding, relPath } from "./common";
+
+/**
+ * Rust: rustc diagnostics (via cargo) and `cargo test` panics.
+ *
+ *   error[E0425]: cannot find value `x` in this scope
+ *     --> src/main.rs:12:5
+ *
+ *   ---- tests::parses stdout ----
+ *   thread 'tests::parses' panicked at src/lib.rs:10:9:
+ *   assertion `left == right` failed
+ */
+
+const DIAG = /^error(?:\[(E\d+)\])?: (.*)$/;
+const ARROW = /^\s*-->\s+(\S+?):(\d+):(\d+)$/;
+// rust >= 1.73: "panicked at src/lib.rs:10:9:" + message on the next line; older: "panicked at 'msg', src/lib.rs:10:9"
+const PANIC_NEW = /^thread '([^']+)' panicked at (\S+?):(\d+):(\d+):$/;
+const PANIC_OLD = /^thread '([^']+)' panicked at '(.*)', (\S+?):(\d+):(\d+)$/;
+const NOISE = /^(?:could not compile|aborting due to|build failed|test failed)/;
+// A bare "error: …" line is common to many tools: it only counts next to a
+// rustc location arrow or cargo's own progress/summary lines
+const CARGO_CONTEXT =
+  /^\s*-->\s+\S+?:\d+:\d+$|^\s*(?:Compiling|Checking) \S+ v\d|^error: could not compile `|^\s*Running `?(?:rustc|target[/\\])|^test result: /m;
+
+export const cargoParser: LogParser = {
+  name: "cargo",
+  detect: (text) =>
+    /^thread '[^']+' panicked at /m.test(text) || (/^error(?:\[E\d+\])?: /m.test(text) && CARGO_CONTEXT.test(text)),
+  parse(lines) {
+    const out: LogFinding[] = [];
+
+    lines.forEach((ln, i) => {
+      const t = ln.trim();
+
+      const pn = PANIC_NEW.exec(t);
+      const po = pn ? null : PANIC_OLD.exec(t);
+      if (pn || po) {
+        const test = (pn ?? po)![1];
+        out.push(
+          finding("cargo", i, {
+            error_class: "panic",
+            message: pn ? (lines[i + 1] ?? "").trim() : po![2],
+            file: relPath(pn ? pn[2] : po![3]),
+            line: Number(pn ? pn[3] : po![4]),
+            column: Number(pn ? pn[4] : po![5]),
+            test: test === "main" ? null : test,
+          })
+        );
+        return;
+      }
+
+      const d = DIAG.exec(t);
+      if (!d || NOISE.test(d[2])) return;
+      let loc: RegExpExecArray | null = null;
+      for (let k = i + 1; k < Math.min(lines.length, i + 4) && !loc; k++) loc = ARROW.exec(lines[k]);
+      out.push(
+        finding("cargo", i, {
+          error_class: d[1] ?? "CompileError",
+          message: d[2],
+          file: loc ? relPath(loc[1]) : null,
+          line: loc ? Number(loc[2]) : null,
+          column: loc ? Number(loc[3]) : null,
+        })
+      );
+    });
+    return out;
+  },
+};
@@ -0,0 +1,106 @@
+/**
+ * Shared types/helpers for the deterministic log parsers.
+ *
+ * A parser recognises one toolchain's output and turns it into findings:
+ * precise `file:line` locations, test ids and error codes that the LLM would
+ * otherwise have to guess from a tail.
+ */
+
+export type LogFinding = {
+  parser: string;              // registry name, e.g. "jest", "tsc"
+  error_class: string;         // exception class, compiler/lint code, or "TestFailure"
+  message: string;
+  file: string | null;         // repo-relative when the log allows it
+  line: number | null;
+  column: number | null;
+  test: string | null;         // fully-qualified test id when a test failed
+  index: number;               // line number in the parsed text (log order)
+};
+
+export type LogParser = {
+  name: string;
+  /** Cheap check: does the text look like this tool's output? */
+  detect: (text: string) => boolean;
+  parse: (lines: string[]) => LogFinding[];
+};
+
+export const MAX_FINDINGS_PER_PARSER = 20;
+
+const ANSI = /\x1b\[[0-9;]*[A-Za-z]/g;
+const RUNNER_PREFIX = /^(?:\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z )?(?:##\[(?:error|warning)\])?/;
+
+/** Strip colour codes and the runner's timestamp / annotation prefixes */
+export function cleanLines(text: string): string[] {
+  return (text || "")
+    .replace(ANSI, "")
+    .split("\n")
+    .map((ln) => ln.replace(RUNNER_PREFIX, "").replace(/\r$/, ""));
+}
+
+/**
+ * Make a path from a log repo-relative: drop the runner's checkout prefix
+ * (`/home/runner/work/<repo>/<repo>/`, or `D:\a\<repo>\<repo>\` on Windows
+ * with either separator), `file://` and a leading `./`.
+ */
+export function relPath(p: string): string {
+  return p
+    .replace(/^file:\/\//, "")
+    .replace(/^\/home\/runner\/work\/[^/]+\/[^/]+\//, "")
+    .replace(/^[A-Za-z]:[\\/]a[\\/][^\\/]+[\\/][^\\/]+[\\/]/, "")
+    .replace(/^\/github\/workspace\//, "")
+    .replace(/^\.\//, "");
+}
+
+/** JVM stack frames of assertion libraries / runners: never the culprit */
+export const LIBRARY_FRAME =
+  /^(?:java|javax|jdk|sun|kotlin|scala|org\.junit|junit|org\.opentest4j|org\.assertj|org\.hamcrest|org\.mockito|org\.apache\.maven|org\.gradle)\./;
+
+const LOCATION = /((?:[A-Za-z]:)?[\w.@~/\\-]*[\w-]\.[A-Za-z]{1,5}):(\d+)(?::(\d+))?/;
+const DEPENDENCY = /node_modules|node:internal|site-packages|\/usr\/(?:local\/)?(?:lib|go)\/|\/go\/pkg\/mod\//;
+
+/** First `file:line[:col]` in lines[from, to) outside dependencies and runtime internals */
+export function findLocation(lines: string[], from: number, to: number) {
+  for (let i = Math.max(0, from); i < Math.min(lines.length, to); i++) {
+    const m = LOCATION.exec(lines[i]);
+    if (!m || DEPENDENCY.test(m[1])) continue;
+    return { file: relPath(m[1]), line: Number(m[2]), column: m[3] ? Number(m[3]) : null };
+  }
+  return null;
+}
+
+/** Every project `file:line[:col]` in the lines (log order, first `max`) */
+export function findLocations(lines: string[], max = 100) {
+  const out: Array<{ file: string; line: number; column: number | null; index: number }> = [];
+  const re = new RegExp(LOCATION.source, "g");
+  for (let i = 0; i < lines.length && out.length < max; i++) {
+    for (const m of lines[i].matchAll(re)) {
+      if (DEPENDENCY.test(m[1]) || Number(m[2]) < 1) continue;
+      out.push({ file: relPath(m[1]), line: Number(m[2]), column: m[3] ? Number(m[3]) : null, index: i });
+      if (out.length >= max) break;
+    }
+  }
+  return out;
+}
+
+/** `TypeError: boom` → "TypeError"; anything else → fallback */
+export function errorClassOf(message: string, fallback: string) {
+  const m = /^\s*(?:[\w$]+\.)*([A-Z][\w$]*(?:Error|Exception|Failure|Failed|Panic))\b/.exec(message);
+  return m ? m[1] : fallback;
+}
+
+export function finding(
+  parser: string,
+  index: number,
+  f: Partial<Omit<LogFinding, "parser" | "index">> & { error_class: string; message: string }
+): LogFinding {
+  return {
+    parser,
+    index,
+    error_class: f.error_class,
+    message: f.message.trim().slice(0, 500),
+    file: f.file ?? null,
+    line: f.line ?? null,
+    column: f.column ?? null,
+    test: f.test ?? null,
+  };
+}
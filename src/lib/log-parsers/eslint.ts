@@ -0,0 +1,45 @@
+import { type LogParser, type LogFinding, finding, relPath } from "./common";
+
+/**
+ * ESLint "stylish" output and `next lint` (errors only; warnings don't fail CI
+ * unless `--max-warnings` is set, and then the count line says so).
+ *
+ *   /home/runner/work/r/r/src/a.ts
+ *     12:5  error  'x' is assigned a value but never used  no-unused-vars
+ *
+ *   ./src/a.ts
+ *   12:5  Error: Unexpected any. Specify a different type.  @typescript-eslint/no-explicit-any
+ */
+
+const FILE = /^(\S+\.(?:[cm]?[jt]sx?|vue|svelte|astro))$/;
+const PROBLEM = /^(\d+):(\d+)\s+(?:error|Error:)\s+(.+?)\s{2,}(@?[\w/-]+)$/;
+
+export const eslintParser: LogParser = {
+  name: "eslint",
+  detect: (text) => /^\s*\d+:\d+\s+(?:error|Error:)\s+.+\s{2,}@?[\w/-]+\s*$/m.test(text),
+  parse(lines) {
+    const out: LogFinding[] = [];
+    let file: string | null = null;
+
+    lines.forEach((ln, i) => {
+      const t = ln.trim();
+      const f = FILE.exec(t);
+      if (f) {
+        file = relPath(f[1]);
+        return;
+      }
+      const p = PROBLEM.exec(t);
+      if (!p) return;
+      out.push(
+        finding("eslint", i, {
+          error_class: `eslint/${p[4]}`,
+          message: p[3],
+          file,
+          line: Number(p[1]),
+          column: Number(p[2]),
+        })
+      );
+    });
+    return out;
+  },
+};
@@ -0,0 +1,70 @@
+import { type LogParser, type LogFinding, findLocation, finding, relPath } from "./common";
+
+/**
+ * `go test` / `go build` / `go vet`.
+ *
+ *   --- FAIL: TestParse (0.00s)
+ *       parse_test.go:42: got 1, want 2
+ *   panic: runtime error: index out of range [recovered]
+ *   ./main.go:12:3: undefined: foo
+ */
+
+const TEST_FAIL = /^(\s*)--- FAIL: (\S+)/;
+const TEST_LOC = /^\s+([\w./-]+\.go):(\d+): (.*)$/;
+const COMPILE = /^(\.?\/?[\w./-]+\.go):(\d+):(\d+): (.*)$/;
+const PANIC = /^panic: (.*)$/;
+const PKG_FAIL = /^FAIL\s+(\S+)\s/;
+
+export const goParser: LogParser = {
+  name: "go",
+  detect: (text) => /^\s*--- FAIL: /m.test(text) || /^FAIL\t/m.test(text) || /^\S+\.go:\d+:\d+: /m.test(text),
+  parse(lines) {
+    const out: LogFinding[] = [];
+    // package of each test comes after its output; resolve at the end
+    const pending: LogFinding[] = [];
+
+    lines.forEach((ln, i) => {
+      const t = TEST_FAIL.exec(ln);
+      if (t) {
+        const loc = TEST_LOC.exec(lines[i + 1] ?? "");
+        const f = finding("go", i, {
+          error_class: "TestFailure",
+          message: loc?.[3] ?? "",
+          file: loc ? relPath(loc[1]) : null,
+          line: loc ? Number(loc[2]) : null,
+          test: t[2],
+        });
+        out.push(f);
+        pending.push(f);
+        return;
+      }
+
+      const p = PANIC.exec(ln);
+      if (p) {
+        const loc = findLocation(lines, i + 1, i + 40); // first frame outside the runtime
+        out.push(finding("go", i, { error_class: "panic", message: p[1], ...loc }));
+        return;
+      }
+
+      const c = COMPILE.exec(ln);
+      if (c) {
+        out.push(
+          finding("go", i, {
+            error_class: "CompileError",
+            message: c[4],
+            file: relPath(c[1]),
+            line: Number(c[2]),
+            column: Number(c[3]),
+          })
+        );
+        return;
+      }
+
+      const pf = PKG_FAIL.exec(ln);
+      if (pf) {
+        for (const f of pending.splice(0)) f.test = `${pf[1]}.${f.test}`;
+      }
+    });
+    return out;
+  },
+};
@@ -0,0 +1,102 @@
+import { sha1, templateize } from "@/lib/text";
+import { type LogParser, type LogFinding, MAX_FINDINGS_PER_PARSER, cleanLines } from "./common";
+import { jestParser } from "./jest";
+import { pytestParser } from "./pytest";
+import { goParser } from "./go";
+import { junitParser } from "./junit";
+import { tscParser } from "./tsc";
+import { eslintParser } from "./eslint";
+import { cargoParser } from "./cargo";
+import { npmParser } from "./npm";
+
+/**
+ * Deterministic log parsers, run before the LLM.
+ *
+ * Every registered parser whose `detect` matches gets the cleaned lines; the
+ * findings are merged in log order. Analysis fills `StructuredAnalysis` from
+ * them (the LLM only fills gaps) and they key the v2 error signature, so the
+ * same failing test / compiler error groups together regardless of noise.
+ */
+
+export type { LogParser, LogFinding } from "./common";
+
+export type ParsedLog = {
+  parsers: string[];     // parsers that produced findings
+  findings: LogFinding[];
+};
+
+const registry: LogParser[] = [];
+
+/** Add (or replace, by name) a parser */
+export function registerLogParser(p: LogParser) {
+  const i = registry.findIndex((x) => x.name === p.name);
+  if (i >= 0) registry[i] = p;
+  else registry.push(p);
+}
+
+export function logParsers(): readonly LogParser[] {
+  return registry;
+}
+
+[jestParser, pytestParser, goParser, junitParser, tscParser, eslintParser, cargoParser, npmParser].forEach(
+  registerLogParser
+);
+
+export function parseLog(text: string): ParsedLog {
+  const lines = cleanLines(text);
+  const cleaned = lines.join("\n");
+  const findings: LogFinding[] = [];
+  const parsers: string[] = [];
+
+  for (const p of registry) {
+    if (!p.detect(cleaned)) continue;
+    try {
+      const found = p.parse(lines).slice(0, MAX_FINDINGS_PER_PARSER);
+      if (found.length) {
+        parsers.push(p.name);
+        findings.push(...found);
+      }
+    } catch (e) {
+      // a broken parser must never block analysis
+      console.warn(`[log-parsers] ${p.name} failed:`, e);
+    }
+  }
+
+  const seen = new Set<string>();
+  return {
+    parsers,
+    findings: findings
+      .sort((a, b) => a.index - b.index)
+      .filter((f) => {
+        const k = `${f.error_class}|${f.test ?? ""}|${f.file ?? ""}|${f.line ?? ""}`;
+        if (seen.has(k)) return false; // e.g. jest's "Summary of all failing tests" repeat
+        seen.add(k);
+        return true;
+      }),
+  };
+}
+
+/**
+ * Stable identity of a set of findings: what failed and where, without line
+ * numbers or messages (those drift with unrelated edits and values). A
+ * finding with neither file nor test keys on its templated message instead,
+ * so unrelated location-less errors don't collapse into one signature.
+ */
+export function findingsKey(findings: LogFinding[]): string | null {
+  const keyOf = (f: LogFinding) =>
+    f.file || f.test
+      ? [f.parser, f.error_class, f.test ?? "", f.file ?? ""]
+      : [f.parser, f.error_class, "", "", templateize(f.message ?? "").trim()];
+  const keys = [...new Set(findings.map((f) => keyOf(f).join("|")))].sort();
+  return keys.length ? keys.slice(0, 10).join("\n") : null;
+}
+
+/**
+ * v2 signature: keyed by parser findings when a parser recognised the log,
+ * else the templated normalized tail.
+ */
+export function errorSignatureV2(raw: string, norm: string): string | null {
+  const key = findingsKey(parseLog(raw).findings);
+  if (key) return sha1(key);
+  return norm ? sha1(templateize(norm)) : null;
+}
@@ -0,0 +1,77 @@
+import { type LogParser, type LogFinding, errorClassOf, findLocation, finding, relPath } from "./common";
+
+/**
+ * Jest and Vitest.
+ *
+ *   FAIL src/sum.test.ts                      (jest)
+ *     ● Math › adds numbers
+ *       expect(received).toBe(expected)
+ *       at Object.<anonymous> (src/sum.test.ts:4:21)
+ *
+ *    FAIL  src/sum.test.ts > Math > adds      (vitest)
+ *   AssertionError: expected 3 to be 4
+ *    ❯ src/sum.test.ts:4:21
+ */
+
+const JEST_FILE = /^\s*FAIL\s+(\S+)\s*$/;
+const VITEST_TEST = /^\s*FAIL\s+(\S+)\s+>\s+(.+?)\s*$/;
+const JEST_TEST = /^\s*●\s+(.+?)\s*$/;
+const SUITE_FAILED = "Test suite failed to run";
+
+/** Next non-empty line after `i` that isn't a block start */
+function messageAfter(lines: string[], i: number, end: number) {
+  for (let k = i + 1; k < end; k++) {
+    const t = lines[k].trim();
+    if (t) return t;
+  }
+  return "";
+}
+
+function blockEnd(lines: string[], i: number) {
+  for (let k = i + 1; k < Math.min(lines.length, i + 60); k++) {
+    if (JEST_TEST.test(lines[k]) || VITEST_TEST.test(lines[k]) || JEST_FILE.test(lines[k])) return k;
+  }
+  return Math.min(lines.length, i + 60);
+}
+
+export const jestParser: LogParser = {
+  name: "jest",
+  detect: (text) => /^\s*FAIL\s+\S/m.test(text) && /●|Tests?:\s|Test Files\s/.test(text),
+  parse(lines) {
+    const out: LogFinding[] = [];
+    let file: string | null = null;
+
+    lines.forEach((ln, i) => {
+      const jf = JEST_FILE.exec(ln);
+      if (jf) {
+        file = relPath(jf[1]);
+        return;
+      }
+
+      const vt = VITEST_TEST.exec(ln);
+      const jt = vt ? null : JEST_TEST.exec(ln);
+      if (!vt && !jt) return;
+
+      const end = blockEnd(lines, i);
+      const message = messageAfter(lines, i, end);
+      const loc = findLocation(lines, i + 1, end);
+      const title = vt ? vt[2] : jt![1];
+      const suiteFailed = title === SUITE_FAILED;
+      const testFile = vt ? relPath(vt[1]) : file;
+
+      out.push(
+        finding("jest", i, {
+          error_class: /^expect\(/.test(message)
+            ? "AssertionError"
+            : errorClassOf(message, suiteFailed ? "SuiteError" : "TestFailure"),
+          message,
+          file: loc?.file ?? testFile,
+          line: loc?.line,
+          column: loc?.column,
+          test: suiteFailed ? null : `${testFile ? `${testFile} > ` : ""}${title.replace(/ › /g, " > ")}`,
+        })
+      );
+    });
+    return out;
+  },
+};
@@ -0,0 +1,94 @@
+import { type LogParser, type LogFinding, LIBRARY_FRAME, errorClassOf, finding, relPath } from "./common";
+
+/**
+ * JVM builds: Maven (surefire/failsafe, compiler), Gradle test output, javac
+ * and kotlinc diagnostics.
+ *
+ *   [ERROR] com.acme.FooTest.parses  Time elapsed: 0.01 s  <<< FAILURE!
+ *   org.opentest4j.AssertionFailedError: expected: <1> but was: <2>
+ *       at com.acme.FooTest.parses(FooTest.java:42)
+ *
+ *   FooTest > parses() FAILED
+ *       java.lang.AssertionError at FooTest.java:42
+ *
+ *   [ERROR] /home/runner/work/r/r/src/main/java/com/acme/Foo.java:[12,5] cannot find symbol
+ *   src/main/java/com/acme/Foo.java:12: error: cannot find symbol
+ *   e: file:///home/runner/work/r/r/src/main/kotlin/Foo.kt:12:5 Unresolved reference: bar
+ */
+
+const SUREFIRE = /^(?:\[ERROR\]\s+)?(\S+?)(?:\(([\w.$]+)\))?\s+Time elapsed:.*<<<\s*(FAILURE|ERROR)!/;
+const GRADLE_TEST = /^(\S+) > (.+?) FAILED$/;
+const MAVEN_COMPILE = /^\[ERROR\]\s+(\S+\.(?:java|kt|scala|groovy)):\[(\d+),(\d+)\]\s+(.*)$/;
+const JAVAC = /^(\S+\.java):(\d+): error: (.*)$/;
+const KOTLINC = /^e: (\S+\.kts?):(\d+):(\d+) (.*)$/;
+const FRAME = /^\s*at\s+([\w.$<>]+)\(([\w$]+\.(?:java|kt|scala|groovy)):(\d+)\)/;
+const GRADLE_CAUSE = /^\s*([\w.$]+)(?::\s*(.*?))?(?:\s+at\s+([\w$]+\.(?:java|kt|scala|groovy)):(\d+))?$/;
+
+/** Exception + first stack frame under a failed test header */
+function exceptionAfter(lines: string[], i: number) {
+  let message = "";
+  for (let k = i + 1; k < Math.min(lines.length, i + 30); k++) {
+    const t = lines[k].trim();
+    if (!t) continue;
+    if (!message) {
+      message = t;
+      const g = GRADLE_CAUSE.exec(t);
+      if (g?.[3]) return { message, file: g[3], line: Number(g[4]) };
+      continue;
+    }
+    const f = FRAME.exec(lines[k]);
+    if (f && !LIBRARY_FRAME.test(f[1])) return { message, file: f[2], line: Number(f[3]) };
+    if (SUREFIRE.test(t) || GRADLE_TEST.test(t)) break;
+  }
+  return { message, file: null, line: null };
+}
+
+export const junitParser: LogParser = {
+  name: "junit",
+  detect: (text) =>
+    /<<<\s*(?:FAILURE|ERROR)!| > .+ FAILED$|^\[ERROR\] |\.java:\d+: error:|^e: \S+\.kts?:\d+/m.test(text),
+  parse(lines) {
+    const out: LogFinding[] = [];
+
+    lines.forEach((ln, i) => {
+      const s = SUREFIRE.exec(ln.trim()) ?? GRADLE_TEST.exec(ln.trim());
+      if (s) {
+        // surefire: `method(Class)` (JUnit 4) or `Class.method` (JUnit 5); gradle: `Class > method()`
+        const test = GRADLE_TEST.test(ln.trim())
+          ? `${s[1]}.${s[2].replace(/\(\)$/, "")}`
+          : s[2] ? `${s[2]}.${s[1]}` : s[1];
+        const ex = exceptionAfter(lines, i);
+        out.push(
+          finding("junit", i, {
+            error_class: errorClassOf(ex.message, "TestFailure"),
+            message: ex.message,
+            file: ex.file,
+            line: ex.line,
+            test,
+          })
+        );
+        return;
+      }
+
+      const c = MAVEN_COMPILE.exec(ln.trim()) ?? KOTLINC.exec(ln.trim());
+      if (c) {
+        out.push(
+          finding("junit", i, {
+            error_class: "CompileError",
+            message: c[4],
+            file: relPath(c[1]),
+            line: Number(c[2]),
+            column: Number(c[3]),
+          })
+        );
+        return;
+      }
+
+      const j = JAVAC.exec(ln.trim());
+      if (j) {
+        out.push(finding("junit", i, { error_class: "CompileError", message: j[3], file: relPath(j[1]), line: Number(j[2]) }));
+      }
+    });
+    return out;
+  },
+};
@@ -0,0 +1,62 @@
+import { type LogParser, type LogFinding, finding } from "./common";
+
+/**
+ * Dependency installation: npm, yarn (classic and berry) and pnpm.
+ *
+ *   npm ERR! code ERESOLVE            (npm <= 9: "npm ERR!", npm >= 10: "npm error")
+ *   npm ERR! ERESOLVE unable to resolve dependency tree
+ *   error Couldn't find package "left-pad@^9.0.0" required by "app@1.0.0" on the "npm" registry.
+ *   ➤ YN0035: │ left-pad@npm:^9.0.0: Package not found
+ *    ERR_PNPM_NO_MATCHING_VERSION  No matching version found for left-pad@^9.0.0
+ */
+
+const NPM_CODE = /^npm (?:ERR!|error) code (\S+)/;
+const NPM_LINE = /^npm (?:ERR!|error) (.+)$/;
+const YARN = /^error (?!Command failed)(.+)$/;
+const BERRY = /^➤ (YN\d{4}): (?:│\s*)?(.+)$/;
+const PNPM = /^(ERR_PNPM_\w+)\s+(.+)$/;
+const MANIFEST = "package.json";
+// berry prints warnings with the same prefix; these codes fail the install
+const BERRY_ERRORS = new Set(["YN0001", "YN0009", "YN0018", "YN0028", "YN0035", "YN0082"]);
+
+export const npmParser: LogParser = {
+  name: "npm",
+  detect: (text) => /^npm (?:ERR!|error) |^error .*(?:package|registry|dependenc)|➤ YN\d{4}:|ERR_PNPM_/im.test(text),
+  parse(lines) {
+    const out: LogFinding[] = [];
+
+    lines.forEach((ln, i) => {
+      const t = ln.trim();
+
+      const code = NPM_CODE.exec(t);
+      if (code) {
+        // the message is the first detail line after `code`
+        let message = "";
+        for (let k = i + 1; k < Math.min(lines.length, i + 6) && !message; k++) {
+          const m = NPM_LINE.exec(lines[k].trim());
+          if (m && !/^(?:code|errno|syscall|path) /.test(m[1])) message = m[1];
+        }
+        out.push(finding("npm", i, { error_class: `npm/${code[1]}`, message, file: MANIFEST }));
+        return;
+      }
+
+      const b = BERRY.exec(t);
+      if (b && BERRY_ERRORS.has(b[1])) {
+        out.push(finding("npm", i, { error_class: `yarn/${b[1]}`, message: b[2], file: MANIFEST }));
+        return;
+      }
+
+      const p = PNPM.exec(t);
+      if (p) {
+        out.push(finding("npm", i, { error_class: `pnpm/${p[1]}`, message: p[2], file: MANIFEST }));
+        return;
+      }
+
+      const y = YARN.exec(t);
+      if (y && /package|registry|dependenc|resolv|integrity|lockfile/i.test(y[1])) {
+        out.push(finding("npm", i, { error_class: "yarn/install", message: y[1], file: MANIFEST }));
+      }
+    });
+    return out;
+  },
+};
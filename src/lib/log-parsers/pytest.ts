@@ -0,0 +1,43 @@
+import { type LogParser, type LogFinding, errorClassOf, finding, relPath } from "./common";
+
+/**
+ * pytest: the "short test summary info" lines, located via the
+ * `path.py:12: AssertionError` lines of the failure report.
+ *
+ *   FAILED tests/test_api.py::TestApi::test_get - AssertionError: assert 500 == 200
+ *   ERROR tests/test_db.py - ModuleNotFoundError: No module named 'psycopg'
+ */
+
+const SUMMARY = /^(FAILED|ERROR)\s+(\S+?)(?:\s+-\s+(.*))?$/;
+const REPORT_LOC = /^(\S+\.py):(\d+):\s+(\w+)/;
+
+export const pytestParser: LogParser = {
+  name: "pytest",
+  detect: (text) => /^=+ (?:short test summary info|FAILURES|ERRORS) =+$/m.test(text) || /^FAILED \S+::/m.test(text),
+  parse(lines) {
+    const locs = new Map<string, number>(); // file → last reported line
+    for (const ln of lines) {
+      const m = REPORT_LOC.exec(ln.trim());
+      if (m) locs.set(relPath(m[1]), Number(m[2]));
+    }
+
+    const out: LogFinding[] = [];
+    lines.forEach((ln, i) => {
+      const m = SUMMARY.exec(ln.trim());
+      if (!m || !/\.py\b/.test(m[2])) return;
+      const nodeid = m[2];
+      const file = relPath(nodeid.split("::")[0]);
+      const message = m[3] ?? "";
+      out.push(
+        finding("pytest", i, {
+          error_class: errorClassOf(message, m[1] === "ERROR" ? "CollectionError" : "TestFailure"),
+          message,
+          file,
+          line: locs.get(file),
+          test: nodeid.includes("::") ? nodeid : null,
+        })
+      );
+    });
+    return out;
+  },
+};
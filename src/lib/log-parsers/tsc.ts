@@ -0,0 +1,33 @@
+import { type LogParser, type LogFinding, finding, relPath } from "./common";
+
+/**
+ * TypeScript compiler, plain and `--pretty` formats.
+ *
+ *   src/app.ts(12,5): error TS2322: Type 'string' is not assignable to type 'number'.
+ *   src/app.ts:12:5 - error TS2322: Type 'string' is not assignable to type 'number'.
+ */
+
+const PLAIN = /^(\S+?\.[cm]?[jt]sx?)\((\d+),(\d+)\): error (TS\d+): (.*)$/;
+const PRETTY = /^(\S+?\.[cm]?[jt]sx?):(\d+):(\d+) - error (TS\d+): (.*)$/;
+
+export const tscParser: LogParser = {
+  name: "tsc",
+  detect: (text) => /error TS\d+:/.test(text),
+  parse(lines) {
+    const out: LogFinding[] = [];
+    lines.forEach((ln, i) => {
+      const m = PLAIN.exec(ln.trim()) ?? PRETTY.exec(ln.trim());
+      if (!m) return;
+      out.push(
+        finding("tsc", i, {
+          error_class: m[4],
+          message: m[5],
+          file: relPath(m[1]),
+          line: Number(m[2]),
+          column: Number(m[3]),
+        })
+      );
+    });
+    return out;
+  },
+};
@@ -0,0 +1,331 @@
+import yauzl from "yauzl";
+import { tailLines } from "@/lib/text";
+
+/**
+ * GitHub Actions log helpers.
+ *
+ * A run's logs archive contains one top-level `<n>_<job>.txt` per job and,
+ * per job, a `<job>/<n>_<step>.txt` file per step. We parse it into a
+ * structured list of jobs/steps so the graph can look at the step that
+ * actually failed instead of whatever sorted last in the zip.
+ */
+
+export type LogStep = {
+  number: number;
+  name: string;
+  conclusion: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  text: string;
+};
+
+export type LogJob = {
+  id: number | null;
+  name: string;
+  conclusion: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  steps: LogStep[];
+  text: string; // full job log (or concatenated step logs)
+};
+
+/** Failing slice of a run: one job + (optionally) the step that failed */
+export type LogSection = {
+  job: string;
+  step: string | null;
+  text: string;
+};
+
+/** Shape of `GET /repos/{owner}/{repo}/actions/runs/{run_id}/jobs` items we care about */
+export type JobMetadata = {
+  id: number;
+  name: string;
+  conclusion: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  steps?: Array<{
+    number: number;
+    name: string;
+    conclusion: string | null;
+    started_at?: string | null;
+    completed_at?: string | null;
+  }>;
+};
+
+const FAILED_CONCLUSIONS = new Set(["failure", "timed_out", "startup_failure"]);
+const TS_PREFIX = /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z) ?/;
+
+/* ============================== Zip reading ============================== */
+
+export async function streamToBuffer(stream: NodeJS.ReadableStream): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  return Buffer.concat(chunks);
+}
+
+function tailBytes(buf: Buffer, n: number): Buffer {
+  if (buf.length <= n) return buf;
+  return buf.subarray(buf.length - n);
+}
+
+/** Read every `.txt` entry of a logs archive (tail-capped per file) */
+export async function unzipLogArchive(
+  zipBuffer: Buffer,
+  opts?: { maxFiles?: number; tailPerFileBytes?: number; maxCombinedBytes?: number }
+): Promise<Array<{ name: string; text: string }>> {
+  const maxFiles = opts?.maxFiles ?? 200;
+  const tailPerFileBytes = opts?.tailPerFileBytes ?? 200_000;
+  const maxCombinedBytes = opts?.maxCombinedBytes ?? 4_000_000;
+
+  const files: Array<{ name: string; text: string }> = [];
+  let combinedBytes = 0;
+
+  const zip: yauzl.ZipFile = await new Promise((resolve, reject) => {
+    yauzl.fromBuffer(zipBuffer, { lazyEntries: true }, (err, zf) => {
+      if (err || !zf) return reject(err || new Error("Failed to open zip"));
+      resolve(zf);
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    let count = 0;
+    zip.readEntry();
+
+    zip.on("entry", (entry: yauzl.Entry) => {
+      if (!entry.fileName.endsWith(".txt")) { zip.readEntry(); return; }
+      if (count >= maxFiles || combinedBytes >= maxCombinedBytes) { zip.close(); return resolve(); }
+
+      zip.openReadStream(entry, async (err, rs) => {
+        if (err || !rs) { zip.close(); return reject(err || new Error("Failed to read entry stream")); }
+        try {
+          const buf = await streamToBuffer(rs);
+          const slice = tailBytes(buf, tailPerFileBytes);
+          combinedBytes += slice.length;
+          files.push({ name: entry.fileName, text: slice.toString("utf8") });
+
+          count += 1;
+          if (count >= maxFiles || combinedBytes >= maxCombinedBytes) { zip.close(); return resolve(); }
+          zip.readEntry();
+        } catch (e) {
+          zip.close();
+          reject(e);
+        }
+      });
+    });
+
+    zip.on("end", () => resolve());
+    zip.on("close", () => resolve());
+    zip.on("error", (e) => reject(e));
+  });
+
+  return files;
+}
+
+/* ============================== Segmentation ============================== */
+
+function lineTimestamp(line: string): string | null {
+  const m = TS_PREFIX.exec(line);
+  return m ? m[1] : null;
+}
+
+/** First/last timestamp found in a log chunk */
+function timingOf(text: string): { started_at: string | null; completed_at: string | null } {
+  const lines = text.split("\n");
+  let started_at: string | null = null;
+  let completed_at: string | null = null;
+  for (const ln of lines) {
+    const ts = lineTimestamp(ln);
+    if (!ts) continue;
+    if (!started_at) started_at = ts;
+    completed_at = ts;
+  }
+  return { started_at, completed_at };
+}
+
+/** Without API metadata, a step/job "failed" if the runner emitted an error annotation */
+function inferConclusion(text: string): string | null {
+  return /##\[error\]/.test(text) ? "failure" : null;
+}
+
+/** Strip the runner's per-line timestamp prefix (noise for LLMs and signatures) */
+export function stripTimestamps(text: string) {
+  return (text || "")
+    .split("\n")
+    .map((ln) => ln.replace(TS_PREFIX, ""))
+    .join("\n");
+}
+
+/** Group raw archive entries into jobs with their steps */
+export function segmentLogArchive(files: Array<{ name: string; text: string }>): LogJob[] {
+  const jobs = new Map<string, LogJob>();
+  const getJob = (name: string) => {
+    let j = jobs.get(name);
+    if (!j) {
+      j = { id: null, name, conclusion: null, started_at: null, completed_at: null, steps: [], text: "" };
+      jobs.set(name, j);
+    }
+    return j;
+  };
+
+  for (const f of files) {
+    const step = /^(.+)\/(\d+)_(.+)\.txt$/.exec(f.name);
+    if (step) {
+      const job = getJob(step[1]);
+      job.steps.push({
+        number: Number(step[2]),
+        name: step[3],
+        conclusion: inferConclusion(f.text),
+        ...timingOf(f.text),
+        text: f.text,
+      });
+      continue;
+    }
+    const top = /^(?:\d+_)?([^/]+)\.txt$/.exec(f.name);
+    if (top) getJob(top[1]).text = f.text;
+  }
+
+  for (const job of jobs.values()) {
+    job.steps.sort((a, b) => a.number - b.number);
+    if (!job.text) job.text = job.steps.map((s) => s.text).join("\n");
+    job.conclusion = inferConclusion(job.text);
+    Object.assign(job, timingOf(job.text));
+  }
+
+  return [...jobs.values()];
+}
+
+/**
+ * Split a single job log into steps using the step timing reported by the
+ * jobs API (each line is attributed to the step whose window contains it).
+ */
+export function splitJobLogBySteps(text: string, steps: NonNullable<JobMetadata["steps"]>): LogStep[] {
+  const windows = steps.map((s) => ({
+    meta: s,
+    from: s.started_at ? Date.parse(s.started_at) : NaN,
+    // step timestamps are second-resolution; give the upper bound some slack
+    to: s.completed_at ? Date.parse(s.completed_at) + 999 : NaN,
+    lines: [] as string[],
+  }));
+
+  let current = windows[0];
+  for (const ln of (text || "").split("\n")) {
+    const ts = lineTimestamp(ln);
+    if (ts) {
+      const t = Date.parse(ts);
+      const hit = windows.find((w) => t >= w.from && t <= w.to);
+      if (hit) current = hit;
+    }
+    current?.lines.push(ln);
+  }
+
+  return windows.map((w) => ({
+    number: w.meta.number,
+    name: w.meta.name,
+    conclusion: w.meta.conclusion ?? null,
+    started_at: w.meta.started_at ?? null,
+    completed_at: w.meta.completed_at ?? null,
+    text: w.lines.join("\n"),
+  }));
+}
+
+/** Overlay authoritative conclusion/timing from the jobs API onto parsed jobs */
+export function applyJobMetadata(jobs: LogJob[], meta: JobMetadata[]): LogJob[] {
+  for (const m of meta) {
+    const job = jobs.find((j) => j.name === m.name);
+    if (!job) continue;
+
+    job.id = m.id;
+    job.conclusion = m.conclusion ?? job.conclusion;
+    job.started_at = m.started_at ?? job.started_at;
+    job.completed_at = m.completed_at ?? job.completed_at;
+
+    const steps = m.steps ?? [];
+    if (!job.steps.length && steps.length) {
+      job.steps = splitJobLogBySteps(job.text, steps);
+      continue;
+    }
+    for (const s of job.steps) {
+      const ms = steps.find((x) => x.number === s.number);
+      if (!ms) continue;
+      s.conclusion = ms.conclusion ?? s.conclusion;
+      s.started_at = ms.started_at ?? s.started_at;
+      s.completed_at = ms.completed_at ?? s.completed_at;
+    }
+  }
+  return jobs;
+}
+
+/** Build a job from a single job log (jobs API download) + its metadata */
+export function jobFromLog(meta: JobMetadata, text: string): LogJob {
+  const steps = meta.steps?.length ? splitJobLogBySteps(text, meta.steps) : [];
+  const timing = timingOf(text);
+  return {
+    id: meta.id,
+    name: meta.name,
+    conclusion: meta.conclusion ?? inferConclusion(text),
+    started_at: meta.started_at ?? timing.started_at,
+    completed_at: meta.completed_at ?? timing.completed_at,
+    steps,
+    text,
+  };
+}
+
+/* ============================== Selection ============================== */
+
+export const isFailedConclusion = (c: string | null | undefined) => !!c && FAILED_CONCLUSIONS.has(c);
+const isFailed = isFailedConclusion;
+
+/** One section per failing job, narrowed to its failing step when we can tell */
+export function failingSections(jobs: LogJob[]): LogSection[] {
+  const failed = jobs.filter((j) => isFailed(j.conclusion));
+
+  return failed.map((job) => {
+    const step =
+      job.steps.find((s) => isFailed(s.conclusion)) ??
+      job.steps.find((s) => /##\[error\]/.test(s.text)) ??
+      null;
+    return {
+      job: job.name,
+      step: step?.name ?? null,
+      text: stripTimestamps(step?.text || job.text),
+    };
+  });
+}
+
+/**
+ * Render failing sections into the log window handed to Analysis/Solutions.
+ * Each section gets a fair share of the line budget. Falls back to the tail
+ * of every job when nothing is marked as failed.
+ */
+export function renderSections(sections: LogSection[], jobs: LogJob[], maxLines = 800): string {
+  const list: LogSection[] = sections.length
+    ? sections
+    : jobs.map((j) => ({ job: j.name, step: null, text: stripTimestamps(j.text) }));
+  if (!list.length) return "";
+
+  const per = Math.max(100, Math.floor(maxLines / list.length));
+  return list
+    .map((s) => `===== ${s.job}${s.step ? ` / ${s.step}` : ""} =====\n${tailLines(s.text, per)}`)
+    .join("\n\n");
+}
+
+/** Compact per-step breakdown persisted next to the failure row */
+export function summarizeJobs(jobs: LogJob[], excerptLines = 50) {
+  return jobs.map((j) => ({
+    id: j.id,
+    name: j.name,
+    conclusion: j.conclusion,
+    started_at: j.started_at,
+    completed_at: j.completed_at,
+    steps: j.steps.map((s) => ({
+      number: s.number,
+      name: s.name,
+      conclusion: s.conclusion,
+      started_at: s.started_at,
+      completed_at: s.completed_at,
+      lines: s.text ? s.text.split("\n").length : 0,
+      // keep text only for the steps that matter
+      excerpt: isFailed(s.conclusion) ? tailLines(stripTimestamps(s.text), excerptLines) : undefined,
+    })),
+  }));
+}
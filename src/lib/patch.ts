@@ -0,0 +1,227 @@
+import ts from "typescript";
+import { parseAllDocuments } from "yaml";
+
+/**
+ * Patch engine for proposed changes: apply `hunk.after` to the file at head
+ * (by intent), render the result as a unified diff, and check the patched file
+ * still parses (TS/JS via the compiler API, JSON, YAML). A change is only
+ * `appliesCleanly` when all of that holds.
+ */
+
+export type PatchIntent = "replace" | "insert_before" | "insert_after";
+
+export type PatchEdit = {
+  start: number;              // 1-based anchor line
+  span: number;               // lines the anchor block covers (replaced, or inserted after)
+  intent: PatchIntent;
+  after: string;
+};
+
+export type SyntaxCheck = {
+  parser: "typescript" | "json" | "yaml" | null;   // null → no parser for this file type
+  checked: boolean;           // false when unsupported, or the original file didn't parse either
+  ok: boolean;
+  error: string | null;
+};
+
+export type PatchResult = {
+  ok: boolean;                // applied and (where checked) parses
+  content: string;
+  diff: string;
+  syntax: SyntaxCheck;
+  error: string | null;
+};
+
+const DIFF_CONTEXT = 3;
+
+/* ============================== Apply ============================== */
+
+function splitLines(s: string) {
+  const lf = (s ?? "").replace(/\r\n/g, "\n");
+  const trailing = lf.endsWith("\n");
+  const lines = lf.split("\n");
+  if (trailing) lines.pop();
+  return { lines, trailing, eol: /\r\n/.test(s ?? "") ? "\r\n" : "\n" };
+}
+
+/** Apply one edit to `content`; keeps the file's line endings and final newline */
+export function applyEdit(content: string, edit: PatchEdit): { content: string; error: string | null } {
+  const { lines, trailing, eol } = splitLines(content);
+  if (!lines.length || (lines.length === 1 && lines[0] === "")) {
+    return { content, error: "file is empty or could not be fetched" };
+  }
+
+  const span = Math.max(1, edit.span);
+  const last = edit.start + span - 1;
+  if (edit.start < 1 || edit.start > lines.length) {
+    return { content, error: `anchor line ${edit.start} is outside the file (${lines.length} lines)` };
+  }
+  if (edit.intent === "replace" && last > lines.length) {
+    return { content, error: `replacement lines ${edit.start}-${last} run past the end of the file` };
+  }
+
+  const added = splitLines(edit.after).lines;
+  const out = [...lines];
+  if (edit.intent === "replace") out.splice(edit.start - 1, span, ...added);
+  else if (edit.intent === "insert_before") out.splice(edit.start - 1, 0, ...added);
+  else out.splice(Math.min(last, lines.length), 0, ...added);
+
+  return { content: out.join(eol) + (trailing ? eol : ""), error: null };
+}
+
+/* ============================== Diff ============================== */
+
+/** Unified diff of a single-region edit (common prefix/suffix trimmed, one hunk); "" when equal */
+export function unifiedDiff(path: string, before: string, after: string, context = DIFF_CONTEXT): string {
+  const a = splitLines(before).lines;
+  const b = splitLines(after).lines;
+
+  let pre = 0;
+  while (pre < a.length && pre < b.length && a[pre] === b[pre]) pre++;
+  let suf = 0;
+  while (suf < a.length - pre && suf < b.length - pre && a[a.length - 1 - suf] === b[b.length - 1 - suf]) suf++;
+  if (pre === a.length && pre === b.length) return "";
+
+  const lo = Math.max(0, pre - context);
+  const aHi = Math.min(a.length, a.length - suf + context);
+  const bHi = Math.min(b.length, b.length - suf + context);
+  const oldLen = aHi - lo;
+  const newLen = bHi - lo;
+
+  // git writes an empty range as the line before it
+  const range = (start: number, len: number) => `${len === 0 ? start : start + 1},${len}`;
+
+  return [
+    `--- a/${path}`,
+    `+++ b/${path}`,
+    `@@ -${range(lo, oldLen)} +${range(lo, newLen)} @@`,
+    ...a.slice(lo, pre).map((l) => ` ${l}`),
+    ...a.slice(pre, a.length - suf).map((l) => `-${l}`),
+    ...b.slice(pre, b.length - suf).map((l) => `+${l}`),
+    ...a.slice(a.length - suf, aHi).map((l) => ` ${l}`),
+  ].join("\n");
+}
+
+/* ============================== Syntax ============================== */
+
+const TS_EXT = /\.(?:[cm]?[jt]s|[jt]sx)$/i;
+const JSONC = /(?:^|\/)(?:[jt]sconfig[^/]*\.json|\.vscode\/[^/]+\.json)$|\.jsonc$/i;
+
+function parserFor(path: string, language?: string | null): SyntaxCheck["parser"] {
+  if (TS_EXT.test(path)) return "typescript";
+  if (/\.jsonc?$/i.test(path)) return "json";
+  if (/\.ya?ml$/i.test(path)) return "yaml";
+  const lang = (language ?? "").toLowerCase();
+  if (/^(?:ts|tsx|typescript|js|jsx|javascript)$/.test(lang)) return "typescript";
+  if (lang === "json") return "json";
+  if (lang === "yaml" || lang === "yml") return "yaml";
+  return null;
+}
+
+function firstError(path: string, content: string, parser: NonNullable<SyntaxCheck["parser"]>): string | null {
+  if (parser === "typescript") {
+    // transpileModule reports syntactic diagnostics only (no type-check, no resolution)
+    const fileName = TS_EXT.test(path) ? path : `${path}.tsx`;
+    const { diagnostics = [] } = ts.transpileModule(content, {
+      fileName,
+      reportDiagnostics: true,
+      compilerOptions: { jsx: ts.JsxEmit.Preserve, target: ts.ScriptTarget.Latest },
+    });
+    const d = diagnostics.find((x) => x.category === ts.DiagnosticCategory.Error);
+    if (!d) return null;
+    const msg = ts.flattenDiagnosticMessageText(d.messageText, " ");
+    if (d.file && d.start != null) return `line ${d.file.getLineAndCharacterOfPosition(d.start).line + 1}: ${msg}`;
+    return msg;
+  }
+
+  if (parser === "json") {
+    if (JSONC.test(path)) {
+      const { error } = ts.parseConfigFileTextToJson(path, content);
+      return error ? ts.flattenDiagnosticMessageText(error.messageText, " ") : null;
+    }
+    try {
+      JSON.parse(content);
+      return null;
+    } catch (e) {
+      return (e as Error)?.message ?? String(e);
+    }
+  }
+
+  for (const doc of parseAllDocuments(content)) {
+    const [e] = doc.errors;
+    if (e) return e.message.split("\n")[0].replace(/:$/, "");
+  }
+  return null;
+}
+
+/**
+ * Does the patched file still parse? When it doesn't and the original doesn't
+ * either (a dialect the parser can't read, e.g. Flow), the check is skipped
+ * rather than blamed on the patch.
+ */
+export function checkSyntax(path: string, patched: string, original?: string, language?: string | null): SyntaxCheck {
+  const parser = parserFor(path, language);
+  if (!parser) return { parser, checked: false, ok: true, error: null };
+
+  const error = firstError(path, patched, parser);
+  if (!error) return { parser, checked: true, ok: true, error: null };
+  if (original != null && firstError(path, original, parser)) return { parser, checked: false, ok: true, error: null };
+  return { parser, checked: true, ok: false, error };
+}
+
+/* ============================== Engine ============================== */
+
+/**
+ * The edit a validated change stands for: replace/insert at its anchor, over
+ * the lines of `match.original` when known (else the proposed block's size
+ * for a replace, one line for an insert).
+ */
+export function editForChange(ch: {
+  anchor: { line: number } | null;
+  intent?: PatchIntent | null;
+  hunk: { after: string };
+  match?: { kind: string; original?: string } | null;
+}): PatchEdit {
+  const intent = ch.intent ?? "replace";
+  const original = ch.match?.kind === "exact" ? (ch.match.original ?? "") : "";
+  const origLen = original.trim() ? splitLines(original).lines.length : null;
+  const nLines = Math.max(1, splitLines(ch.hunk.after).lines.length);
+  return {
+    start: ch.anchor?.line ?? 1,
+    span: origLen ?? (intent === "replace" ? nLines : 1),
+    intent,
+    after: ch.hunk.after,
+  };
+}
+
+/** Head-file lines an edit covers: the replaced block, or the line an insert attaches to */
+export function editRange(edit: PatchEdit): { start_line: number; end_line: number } {
+  const last = edit.start + Math.max(1, edit.span) - 1;
+  if (edit.intent === "replace") return { start_line: edit.start, end_line: last };
+  const at = edit.intent === "insert_before" ? edit.start : last;
+  return { start_line: at, end_line: at };
+}
+
+/** Apply → diff → parse. `ok` is what `validation.appliesCleanly` should say. */
+export function applyPatch(path: string, content: string, edit: PatchEdit, language?: string | null): PatchResult {
+  const applied = applyEdit(content, edit);
+  if (applied.error) {
+    return {
+      ok: false,
+      content,
+      diff: "",
+      syntax: { parser: parserFor(path, language), checked: false, ok: false, error: null },
+      error: applied.error,
+    };
+  }
+
+  const diff = unifiedDiff(path, content, applied.content);
+  const syntax = checkSyntax(path, applied.content, content, language);
+  const error = !diff
+    ? "patch does not change the file"
+    : !syntax.ok
+      ? `patched file no longer parses (${syntax.parser}): ${syntax.error}`
+      : null;
+
+  return { ok: !error, content: applied.content, diff, syntax, error };
+}
@@ -0,0 +1,184 @@
+import { spawn } from "node:child_process";
+import { mkdtemp, mkdir, readFile, realpath, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import type { Octokit } from "octokit";
+
+/**
+ * Local sandbox for verification runs: a throwaway checkout of the head
+ * commit (tarball, no git credentials on disk) and a runner that executes one
+ * command in it with a scrubbed environment, a wall-clock timeout, CPU/file/
+ * address-space rlimits and a capped heap.
+ *
+ * The command is code the PR author controls, so it only ever runs inside an
+ * isolation wrapper: `VERIFY_WRAPPER` (a container or jail without network,
+ * e.g. `firejail --net=none --quiet` or `docker run --rm --network=none -v
+ * {dir}:/work -w /work node:20`) for the command itself, and
+ * `VERIFY_INSTALL_WRAPPER` for the dependency install, which needs the
+ * registry. `{dir}` is replaced with the checkout path. Without a wrapper
+ * nothing runs.
+ */
+
+const wrapperArgs = (v: string | undefined) => (v ?? "").trim().split(/\s+/).filter(Boolean);
+const WRAPPER = wrapperArgs(process.env.VERIFY_WRAPPER);
+const INSTALL_WRAPPER = wrapperArgs(process.env.VERIFY_INSTALL_WRAPPER);
+// Flags of the usual tools (firejail, docker/podman, bwrap) that cut the network
+const NO_NETWORK = /(?:^|\s)(?:--net(?:work)?[= ]none|--unshare-net|--unshare-all)(?:\s|$)/;
+const MAX_ARCHIVE_BYTES = Number(process.env.VERIFY_MAX_ARCHIVE_MB ?? "200") * 1024 * 1024;
+const MAX_OUTPUT_CHARS = 64_000;
+
+export type SandboxLimits = {
+  timeoutMs: number;
+  memoryMb: number;           // V8 heap cap for node tools (NODE_OPTIONS)
+  virtualMemoryMb: number;    // ulimit -v, per process (every toolchain, not just node)
+  cpuSeconds: number;         // ulimit -t
+  fileMb: number;             // ulimit -f (largest file the command may write)
+};
+
+export type SandboxRun = {
+  exit_code: number | null;   // null → killed (timeout / signal) or failed to start
+  timed_out: boolean;
+  ms: number;
+  output: string;             // stdout+stderr interleaved, tail-capped
+};
+
+/**
+ * Why sandboxed runs can't happen here, or null when they can: the command
+ * wrapper must be set and cut the network; installs need their own wrapper.
+ */
+export function sandboxProblem(opts: { install: boolean }): string | null {
+  if (!WRAPPER.length) return "no isolation wrapper configured (VERIFY_WRAPPER)";
+  if (!NO_NETWORK.test(WRAPPER.join(" "))) return "VERIFY_WRAPPER does not disable the network";
+  if (opts.install && !INSTALL_WRAPPER.length) return "no isolation wrapper for dependency installs (VERIFY_INSTALL_WRAPPER)";
+  return null;
+}
+
+/* ============================== Checkout ============================== */
+
+/** Download `ref` as a tarball and unpack it into a fresh temp dir */
+export async function checkoutRef(octo: Octokit, owner: string, repo: string, ref: string): Promise<string> {
+  const res = await octo.rest.repos.downloadTarballArchive({ owner, repo, ref });
+  const buf = Buffer.from(res.data as ArrayBuffer);
+  if (buf.length > MAX_ARCHIVE_BYTES) {
+    throw new Error(`archive is ${Math.round(buf.length / 1048576)} MB (limit ${MAX_ARCHIVE_BYTES / 1048576} MB)`);
+  }
+
+  const dir = await mkdtemp(path.join(os.tmpdir(), "resolvci-verify-"));
+  const run = await exec("tar", ["-xzf", "-", "-C", dir, "--strip-components=1"], { cwd: dir, input: buf, timeoutMs: 60_000 });
+  if (run.exit_code !== 0) {
+    await removeCheckout(dir);
+    throw new Error(`tar failed (${run.exit_code}): ${run.output.slice(-500)}`);
+  }
+  return dir;
+}
+
+export async function removeCheckout(dir: string) {
+  await rm(dir, { recursive: true, force: true }).catch(() => {});
+}
+
+/**
+ * Resolve a repo path inside the checkout; refuses anything that escapes it,
+ * lexically or through a symlink the tarball planted (file or parent dir).
+ */
+export async function checkoutPath(dir: string, repoPath: string): Promise<string> {
+  const p = path.resolve(dir, repoPath);
+  if (!p.startsWith(dir + path.sep)) throw new Error(`path escapes the checkout: ${repoPath}`);
+
+  const root = await realpath(dir);
+  const real = await realpath(p).catch(async (e) => {
+    if ((e as NodeJS.ErrnoException)?.code !== "ENOENT") throw e;
+    return path.join(await realpath(path.dirname(p)), path.basename(p));   // new file: its directory must be inside
+  });
+  if (!real.startsWith(root + path.sep)) throw new Error(`path escapes the checkout via a symlink: ${repoPath}`);
+  return real;
+}
+
+export async function readCheckoutFile(dir: string, repoPath: string): Promise<string> {
+  return await readFile(await checkoutPath(dir, repoPath), "utf8");
+}
+
+export async function writeCheckoutFile(dir: string, repoPath: string, content: string) {
+  await writeFile(await checkoutPath(dir, repoPath), content, "utf8");
+}
+
+/* ============================== Running ============================== */
+
+/**
+ * Run `argv` in `dir` under the sandbox limits, inside the isolation wrapper
+ * (the install one when `install`); never throws. Refuses to run unwrapped.
+ */
+export async function runSandboxed(
+  dir: string,
+  argv: string[],
+  limits: SandboxLimits,
+  opts: { install?: boolean } = {}
+): Promise<SandboxRun> {
+  const wrapper = opts.install ? INSTALL_WRAPPER : WRAPPER;
+  const problem = sandboxProblem({ install: !!opts.install });
+  if (problem || !wrapper.length) {
+    return { exit_code: null, timed_out: false, ms: 0, output: `sandbox refused to run: ${problem}` };
+  }
+
+  const home = path.join(dir, ".sandbox-home");
+  await mkdir(home, { recursive: true });
+
+  // rlimits apply to the command and its children; argv stays out of the shell string.
+  // One limit per `ulimit` (dash takes a single flag), and no run without them.
+  const script = [
+    `ulimit -t ${Math.ceil(limits.cpuSeconds)}`,
+    `ulimit -f ${Math.ceil(limits.fileMb * 2048)}`,
+    `ulimit -v ${Math.ceil(limits.virtualMemoryMb * 1024)}`,
+  ].join(" && ") + ` || { echo "sandbox: could not set resource limits" >&2; exit 125; }; exec "$@"`;
+  const env: NodeJS.ProcessEnv = {
+    NODE_ENV: "test",
+    PATH: process.env.PATH,
+    HOME: home,
+    LANG: "C.UTF-8",
+    CI: "1",
+    NODE_OPTIONS: `--max-old-space-size=${Math.ceil(limits.memoryMb)}`,
+    npm_config_cache: path.join(home, ".npm"),
+  };
+  const [cmd, ...args] = [...wrapper.map((a) => a.replaceAll("{dir}", dir)), "sh", "-c", script, "sh", ...argv];
+  return await exec(cmd, args, { cwd: dir, env, timeoutMs: limits.timeoutMs });
+}
+
+function exec(
+  cmd: string,
+  args: string[],
+  o: { cwd: string; env?: NodeJS.ProcessEnv; input?: Buffer; timeoutMs: number }
+): Promise<SandboxRun> {
+  const started = Date.now();
+  return new Promise((resolve) => {
+    let output = "";
+    let timedOut = false;
+    const append = (b: Buffer) => {
+      output += b.toString("utf8");
+      if (output.length > MAX_OUTPUT_CHARS * 2) output = output.slice(-MAX_OUTPUT_CHARS);
+    };
+
+    // own process group, so a timeout takes down everything the command spawned
+    const child = spawn(cmd, args, { cwd: o.cwd, env: o.env ?? process.env, detached: true });
+    const timer = setTimeout(() => {
+      timedOut = true;
+      try {
+        if (child.pid) process.kill(-child.pid, "SIGKILL");
+      } catch {
+        child.kill("SIGKILL");
+      }
+    }, o.timeoutMs);
+
+    child.stdout.on("data", append);
+    child.stderr.on("data", append);
+    child.on("error", (e) => {
+      clearTimeout(timer);
+      resolve({ exit_code: null, timed_out: false, ms: Date.now() - started, output: `${output}\n${e.message}` });
+    });
+    child.on("close", (code) => {
+      clearTimeout(timer);
+      resolve({ exit_code: timedOut ? null : code, timed_out: timedOut, ms: Date.now() - started, output: output.slice(-MAX_OUTPUT_CHARS) });
+    });
+
+    if (o.input) child.stdin.end(o.input);
+    else child.stdin.end();
+  });
+}
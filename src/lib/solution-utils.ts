@@ -1,8 +1,27 @@
-import type { SolutionsReturn, SolutionsOutput, Change } from "@/agents/solutions";
+import type { SolutionsReturn, SolutionsOutput, Change, SolutionItem } from "@/agents/solutions";
 
 const TAU = Number(process.env.SOLUTIONS_CONFIDENCE_TAU ?? "0.80");
 const clamp01 = (x?: number) => (typeof x === "number" && !Number.isNaN(x) ? Math.max(0, Math.min(1, x)) : 0);
 
+/** validation.error of a change to a file the PR (or commit) doesn't touch */
+export const NOT_IN_CHANGE_SET = "file is not part of the change set";
+
+/** A change no inline review comment can anchor on: its file is outside the diff */
+export function isOffDiffChange(chg: Change): boolean {
+  return chg.validation?.error === NOT_IN_CHANGE_SET;
+}
+
+/** "Failures" checklist for the review summary: addressed items ticked, diagnosed ones open */
+export function itemChecklistMarkdown(items: SolutionItem[] | undefined): string {
+  if (!items?.length) return "";
+  const lines = items.map((it) =>
+    it.status === "addressed"
+      ? `- [x] **${it.id}** ${it.title} — fix proposed`
+      : `- [ ] **${it.id}** ${it.title} — diagnosis only${it.diagnosis ? `: ${it.diagnosis}` : ""}`
+  );
+  return ["**Failures:**", ...lines].join("\n");
+}
+
 /** Coerce SolutionsOutput | SolutionsReturn into a full SolutionsReturn */
 export function normalizeSolution(sol: SolutionsOutput | SolutionsReturn): SolutionsReturn {
   const anySol = sol as SolutionsReturn;
@@ -35,6 +54,8 @@ export function normalizeSolution(sol: SolutionsOutput | SolutionsReturn): Solut
       changes: sol.changes ?? [],
       tool_invocations: (anySol.tool_invocations ?? []),
       policy,
+      items: sol.items ?? [],
+      culprits: sol.culprits ?? [],
       reviewComments: anySol.reviewComments,
       summaryMarkdown: anySol.summaryMarkdown,
     };
@@ -45,6 +66,7 @@ export function normalizeSolution(sol: SolutionsOutput | SolutionsReturn): Solut
     ``,
     `**Rationale:** ${sol.summary.rationale}`,
     `**Confidence:** ${(confidence * 100).toFixed(0)}% • **Risk:** ${sol.summary.risk}`,
+    ...(sol.items?.length ? [``, itemChecklistMarkdown(sol.items)] : []),
   ].join("\n");
 
   const reviewComments = (sol.changes ?? []).map((chg: Change) => {
@@ -69,6 +91,8 @@ export function normalizeSolution(sol: SolutionsOutput | SolutionsReturn): Solut
     changes: sol.changes ?? [],
     tool_invocations: (anySol.tool_invocations ?? []),
     policy,
+    items: sol.items ?? [],
+    culprits: sol.culprits ?? [],
     reviewComments,
     summaryMarkdown,
   };
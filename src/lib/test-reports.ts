@@ -0,0 +1,238 @@
+import JSZip from "jszip";
+import { LIBRARY_FRAME, findLocation, relPath } from "@/lib/log-parsers/common";
+
+/**
+ * Test-report artifacts (JUnit XML, VSTest TRX, TAP) → failing test cases.
+ *
+ * Workflows often upload `junit.xml` / `test-results` artifacts; those carry
+ * the exact test id, assertion message and stack, which beats scraping the
+ * text log. graph-run downloads matching artifacts, Analysis hands the cases
+ * to Solutions.
+ */
+
+export type TestReportFormat = "junit" | "trx" | "tap";
+
+export type FailingTestCase = {
+  format: TestReportFormat;
+  report: string;              // artifact/entry it came from
+  suite: string | null;
+  classname: string | null;
+  name: string;
+  message: string;
+  stack: string;
+  file: string | null;
+  line: number | null;
+};
+
+const MAX_CASES = 50;
+const MAX_STACK_LINES = 40;
+const MAX_STACK_CHARS = 4_000;
+const MAX_ENTRY_BYTES = 5_000_000;
+const MAX_ENTRIES = 200;
+
+const REPORT_ENTRY = /\.(?:xml|trx|tap)$/i;
+
+/* ============================== Tiny XML reader ============================== */
+
+type XmlNode = { name: string; attrs: Record<string, string>; children: XmlNode[]; text: string };
+
+const ENTITIES: Record<string, string> = { lt: "<", gt: ">", amp: "&", quot: '"', apos: "'" };
+
+function decodeEntities(s: string) {
+  return s.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (m, e: string) => {
+    if (e[0] === "#") {
+      const code = e[1].toLowerCase() === "x" ? parseInt(e.slice(2), 16) : parseInt(e.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : m;
+    }
+    return ENTITIES[e] ?? m;
+  });
+}
+
+/**
+ * Tolerant, non-validating XML → tree (enough for report formats: elements,
+ * attributes, text and CDATA; namespaces are dropped from names).
+ */
+function parseXml(xml: string): XmlNode {
+  const root: XmlNode = { name: "#root", attrs: {}, children: [], text: "" };
+  const stack: XmlNode[] = [root];
+  const token = /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<[?!][\s\S]*?>|<(\/?)([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+  const attr = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+  for (let m = token.exec(xml); m; m = token.exec(xml)) {
+    const top = stack[stack.length - 1];
+    if (m[1] != null) {
+      top.text += m[1];
+    } else if (m[6] != null) {
+      top.text += decodeEntities(m[6]);
+    } else if (m[3]) {
+      const name = m[3].replace(/^[\w.-]+:/, "");
+      if (m[2]) {
+        // close: pop to the matching element (tolerates unclosed children)
+        const i = stack.map((n) => n.name).lastIndexOf(name);
+        if (i > 0) stack.length = i;
+        continue;
+      }
+      const node: XmlNode = { name, attrs: {}, children: [], text: "" };
+      for (let a = attr.exec(m[4] ?? ""); a; a = attr.exec(m[4] ?? "")) {
+        node.attrs[a[1].replace(/^[\w.-]+:/, "")] = decodeEntities(a[2] ?? a[3] ?? "");
+      }
+      top.children.push(node);
+      if (!m[5]) stack.push(node);
+    }
+  }
+  return root;
+}
+
+function* walk(n: XmlNode): Generator<XmlNode> {
+  yield n;
+  for (const c of n.children) yield* walk(c);
+}
+
+const child = (n: XmlNode, name: string) => n.children.find((c) => c.name === name);
+
+/* ============================== Formats ============================== */
+
+function clampStack(s: string) {
+  return s.trim().split("\n").slice(0, MAX_STACK_LINES).join("\n").slice(0, MAX_STACK_CHARS);
+}
+
+/** file:line from explicit attributes, else the first project frame of the stack */
+function locate(stack: string, file?: string, line?: string) {
+  if (file) {
+    const base = file.split(/[/\\]/).pop()!.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    const inStack = line ? null : new RegExp(`${base}:(\\d+)`).exec(stack);
+    return { file: relPath(file).replace(/\\/g, "/"), line: Number(line ?? inStack?.[1]) || null };
+  }
+  const dotnet = /\bin (.+?):line (\d+)/.exec(stack);
+  // strip the checkout prefix before normalising separators
+  if (dotnet) return { file: relPath(dotnet[1]).replace(/\\/g, "/"), line: Number(dotnet[2]) };
+  for (const f of stack.matchAll(/\bat ([\w.$<>]+)\(([\w$]+\.(?:java|kt|scala|groovy)):(\d+)\)/g)) {
+    if (!LIBRARY_FRAME.test(f[1])) return { file: f[2], line: Number(f[3]) };
+  }
+  const loc = findLocation(stack.split("\n"), 0, MAX_STACK_LINES);
+  return { file: loc?.file ?? null, line: loc?.line ?? null };
+}
+
+/** JUnit XML (surefire, gradle, jest-junit, pytest --junitxml, go-junit-report, …) */
+export function parseJUnitXml(xml: string, report: string): FailingTestCase[] {
+  const out: FailingTestCase[] = [];
+  for (const suite of walk(parseXml(xml))) {
+    if (suite.name !== "testsuite") continue;
+    for (const tc of suite.children) {
+      if (tc.name !== "testcase") continue;
+      const bad = child(tc, "failure") ?? child(tc, "error");
+      if (!bad) continue;
+      const stack = clampStack(bad.text);
+      const message = bad.attrs.message || bad.attrs.type || stack.split("\n")[0] || "";
+      out.push({
+        format: "junit",
+        report,
+        suite: suite.attrs.name ?? null,
+        classname: tc.attrs.classname ?? null,
+        name: tc.attrs.name ?? "",
+        message: message.trim().slice(0, 1_000),
+        stack,
+        ...locate(stack, tc.attrs.file ?? suite.attrs.file, tc.attrs.line),
+      });
+    }
+  }
+  return out;
+}
+
+/** VSTest TRX (`dotnet test --logger trx`) */
+export function parseTrx(xml: string, report: string): FailingTestCase[] {
+  const root = parseXml(xml);
+  const methods = new Map<string, { classname: string | null; name: string }>();
+  for (const n of walk(root)) {
+    if (n.name !== "UnitTest") continue;
+    const tm = child(n, "TestMethod");
+    methods.set(n.attrs.id, { classname: tm?.attrs.className ?? null, name: tm?.attrs.name ?? n.attrs.name ?? "" });
+  }
+
+  const out: FailingTestCase[] = [];
+  for (const r of walk(root)) {
+    if (r.name !== "UnitTestResult" || r.attrs.outcome !== "Failed") continue;
+    const info = child(child(r, "Output") ?? r, "ErrorInfo");
+    const stack = clampStack(child(info ?? r, "StackTrace")?.text ?? "");
+    const def = methods.get(r.attrs.testId);
+    out.push({
+      format: "trx",
+      report,
+      suite: null,
+      classname: def?.classname ?? null,
+      name: r.attrs.testName ?? def?.name ?? "",
+      message: (child(info ?? r, "Message")?.text ?? "").trim().slice(0, 1_000),
+      stack,
+      ...locate(stack),
+    });
+  }
+  return out;
+}
+
+/** TAP 13/14, including node:test's YAML diagnostics (`error`, `location`, `stack`) */
+export function parseTap(text: string, report: string): FailingTestCase[] {
+  const lines = text.split("\n");
+  const out: FailingTestCase[] = [];
+
+  lines.forEach((ln, i) => {
+    const m = /^(\s*)not ok\b\s*\d*\s*(?:-\s*)?(.*?)\s*$/.exec(ln);
+    if (!m || /#\s*(?:TODO|SKIP)\b/i.test(m[2])) return;
+
+    // YAML block: indented `---` … `...` right after the test line
+    const yaml: Record<string, string> = {};
+    if (/^\s*---\s*$/.test(lines[i + 1] ?? "")) {
+      let key: string | null = null;
+      for (let k = i + 2; k < lines.length && !/^\s*\.\.\.\s*$/.test(lines[k]); k++) {
+        const kv = /^\s*(\w+):\s*(.*)$/.exec(lines[k]);
+        if (kv && lines[k].search(/\S/) <= (m[1].length + 2)) {
+          key = kv[1];
+          yaml[key] = kv[2].replace(/^['"]|['"]$/g, "").replace(/^[|>]-?$/, "");
+        } else if (key) {
+          yaml[key] += (yaml[key] ? "\n" : "") + lines[k].trim();
+        }
+      }
+    }
+
+    const stack = clampStack(yaml.stack ?? yaml.at ?? "");
+    const where = yaml.location ?? yaml.at ?? "";
+    const loc = /^(.+?):(\d+)(?::\d+)?$/.exec(where.trim());
+    out.push({
+      format: "tap",
+      report,
+      suite: null,
+      classname: null,
+      name: m[2].replace(/\s*#.*$/, ""),
+      message: (yaml.message ?? yaml.error ?? "").trim().slice(0, 1_000),
+      stack,
+      ...(loc ? { file: relPath(loc[1]), line: Number(loc[2]) } : locate(stack)),
+    });
+  });
+  return out;
+}
+
+/** Pick the format from the entry name, then from the content */
+export function parseTestReport(name: string, content: string): FailingTestCase[] {
+  if (/\.trx$/i.test(name) || /<TestRun\b/.test(content)) return parseTrx(content, name);
+  if (/\.tap$/i.test(name) || /^(?:TAP version \d+|\s*(?:not )?ok \d+)/m.test(content)) {
+    if (!/^\s*</.test(content)) return parseTap(content, name);
+  }
+  if (/<testsuites?\b/.test(content)) return parseJUnitXml(content, name);
+  return [];
+}
+
+/** Every failing case in an artifact archive (zip of report files) */
+export async function readTestReportArchive(zipBuffer: Buffer, artifactName: string): Promise<FailingTestCase[]> {
+  const zip = await JSZip.loadAsync(zipBuffer);
+  const entries = Object.values(zip.files)
+    .filter((e) => !e.dir && REPORT_ENTRY.test(e.name))
+    .slice(0, MAX_ENTRIES);
+
+  const out: FailingTestCase[] = [];
+  for (const e of entries) {
+    const buf = await e.async("nodebuffer");
+    if (buf.length > MAX_ENTRY_BYTES) continue;
+    out.push(...parseTestReport(`${artifactName}/${e.name}`, buf.toString("utf8")));
+    if (out.length >= MAX_CASES) break;
+  }
+  return out.slice(0, MAX_CASES);
+}
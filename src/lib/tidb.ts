@@ -3,13 +3,25 @@ import {
   UniqueConstraintError,
   ConnectionError,
   DatabaseError,
+  Op,
+  QueryTypes,
 } from "sequelize";
 import 'dotenv/config';
 import mysql2 from 'mysql2';
 
-import { sha1, tailLines, normalize, templateize } from "@/lib/text"; // ← use shared helpers
 
-export type OutboundActionStatus = "staged" | "dispatched" | "error";
+export type OutboundActionStatus =
+  | "staged"
+  | "dispatching"
+  | "dispatched"
+  | "error"
+  | "dead"
+  | "discarded"
+  | "superseded";   // a newer commit was pushed to the PR before it went out
+export type OutboundActionType = "pr_review" | "check_run" | "commit_comment" | "issue";
+export type RecommendationOutcome = "pending" | "accepted" | "rejected";
+export type ReviewChannel = "pr_review" | "check_run";
+export type KnowledgeScope = "repo" | "owner" | "global";
 
 // --- singleton for Next.js dev/serverless ---
 const globalForSequelize = global as unknown as { sequelize?: Sequelize };
@@ -55,30 +67,57 @@ export type BuildFailureStatus =
   | "analyzing"
   | "proposed"
   | "applied"
-  | "skipped";
+  | "skipped"
+  | "failed"
+  | "coalesced"    // folded into another failure's incident (see coalesceIncident)
+  | "superseded";  // the PR moved to a newer head before analysis finished
+
+/** Triage outcome recorded instead of a proposal */
+export type BuildFailureTriage = "flaky" | "preexisting";
 
 export interface BuildFailureRow {
   failure_id: number;
   run_id: string | null;
+  run_attempt: number | null;
+  rerun_passed: boolean;          // a later attempt of the same run passed (see markRerunPassed)
+  rerun_passed_at: Date | string | null;
+  job_id: number | null;          // Actions job id (== check_run.id)
+  check_suite_id: number | null;
+  ingest_key: string | null;      // idempotency key, see ingestKeyFor()
 
   repo_owner: string;
   repo_name: string;
+  repo_private: boolean | null;   // null for legacy rows (treated as private when sharing)
   pr_number: number | null;
 
   commit_sha: string;
+  head_branch: string | null;     // null for legacy rows
+  base_branch: string | null;     // PR base (else the default branch); null for legacy rows
   log_content: string | null;
+  log_steps_json: string | null; // per-job/step breakdown (see lib/logs.summarizeJobs)
+  test_reports_json: string | null; // failing cases from JUnit/TRX/TAP artifacts (see lib/test-reports)
 
   installation_id: number | null;
 
   // persisted signatures + normalized tail
   error_signature_v1: string | null; // sha1(normalize(tail))
-  error_signature_v2: string | null; // sha1(templateize(normalize(tail)))
+  error_signature_v2: string | null; // sha1(parser findings key), else sha1(templateize(normalize(tail)))
   norm_tail: string | null;
 
   // generated vector (usually not selected; keep optional)
   norm_tail_vec?: number[] | null;
 
   status: BuildFailureStatus;
+  triage: BuildFailureTriage | null; // why no fix was proposed, when triaged out
+  incident_id: number | null;     // leader failure_id of the incident this row belongs to
+
+  // analysis lease (see claim in /api/graph-run, reclaimExpiredBuildFailures)
+  claimed_by: string | null;
+  lease_expires_at: Date | string | null;
+  heartbeat_at: Date | string | null;
+  attempt_count: number;
+  last_error: string | null;
+
   failure_timestamp: Date | string; // TiDB DATETIME -> Date (node) or string (raw)
 }
 
@@ -93,12 +132,23 @@ export const BuildFailure =
     "build_failures",
     {
       failure_id: { type: DataTypes.BIGINT, primaryKey: true, autoIncrement: true },
-      run_id: { type: DataTypes.STRING(128), unique: true, allowNull: true },
+      run_id: { type: DataTypes.STRING(128), allowNull: true },
+      run_attempt: { type: DataTypes.INTEGER, allowNull: true },
+      rerun_passed: { type: DataTypes.BOOLEAN, allowNull: false, defaultValue: false },
+      rerun_passed_at: { type: DataTypes.DATE, allowNull: true },
+      job_id: { type: DataTypes.BIGINT, allowNull: true },
+      check_suite_id: { type: DataTypes.BIGINT, allowNull: true },
+      ingest_key: { type: DataTypes.STRING(191), unique: true, allowNull: true },
       repo_owner: { type: DataTypes.STRING(200), allowNull: false },
       repo_name: { type: DataTypes.STRING(200), allowNull: false },
+      repo_private: { type: DataTypes.BOOLEAN, allowNull: true },
       pr_number: { type: DataTypes.INTEGER, allowNull: true },
       commit_sha: { type: DataTypes.STRING(64), allowNull: false },
+      head_branch: { type: DataTypes.STRING(255), allowNull: true },
+      base_branch: { type: DataTypes.STRING(255), allowNull: true },
       log_content: { type: DataTypes.TEXT("long"), allowNull: true },
+      log_steps_json: { type: DataTypes.TEXT("long"), allowNull: true },
+      test_reports_json: { type: DataTypes.TEXT("long"), allowNull: true },
       installation_id: { type: DataTypes.BIGINT, allowNull: true },
 
       /** NEW columns */
@@ -107,10 +157,17 @@ export const BuildFailure =
       norm_tail: { type: DataTypes.TEXT, allowNull: true },
 
       status: {
-        type: DataTypes.ENUM("new", "analyzing", "proposed", "applied", "skipped"),
+        type: DataTypes.ENUM("new", "analyzing", "proposed", "applied", "skipped", "failed", "coalesced", "superseded"),
         defaultValue: "new",
         allowNull: false,
       },
+      triage: { type: DataTypes.STRING(32), allowNull: true },
+      incident_id: { type: DataTypes.BIGINT, allowNull: true },
+      claimed_by: { type: DataTypes.STRING(128), allowNull: true },
+      lease_expires_at: { type: DataTypes.DATE, allowNull: true },
+      heartbeat_at: { type: DataTypes.DATE, allowNull: true },
+      attempt_count: { type: DataTypes.INTEGER, allowNull: false, defaultValue: 0 },
+      last_error: { type: DataTypes.TEXT, allowNull: true },
       failure_timestamp: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
     },
     {
@@ -118,9 +175,14 @@ export const BuildFailure =
       timestamps: false,
       indexes: [
         { fields: ["repo_owner", "repo_name"] },
-        { unique: true, fields: ["run_id"] },
+        { unique: true, fields: ["ingest_key"] },
+        { fields: ["run_id"] },
+        { fields: ["status", "lease_expires_at"] },
+        { fields: ["repo_owner", "repo_name", "commit_sha"] },
+        { fields: ["incident_id"] },
         { fields: ["error_signature_v1", "failure_timestamp"] },
         { fields: ["error_signature_v2", "failure_timestamp"] },
+        { fields: ["repo_owner", "repo_name", "head_branch", "failure_timestamp"] },
       ],
     }
   );
@@ -160,60 +222,86 @@ export async function recordWebhookDelivery(deliveryId: string, eventType: strin
   }
 }
 
+/**
+ * Idempotency key for a delivery: the exact job when known (check_run),
+ * else the run attempt (workflow_run). Null → plain insert.
+ */
+export function ingestKeyFor(p: { runId?: string | null; runAttempt?: number | null; jobId?: number | null }) {
+  if (p.jobId) return `job:${p.jobId}`;
+  if (p.runId) return `run:${p.runId}:${p.runAttempt ?? 1}`;
+  return null;
+}
+
 /**
  * Idempotent write:
- * - If runId present: INSERT ... ON DUPLICATE KEY UPDATE no-op (keeps existing row untouched)
- * - If no runId: plain insert (NULL is allowed multiple times in UNIQUE in MySQL)
+ * - If an ingest key can be derived: INSERT ... ON DUPLICATE KEY UPDATE no-op (keeps existing row untouched)
+ * - Otherwise: plain insert (NULL is allowed multiple times in UNIQUE in MySQL)
  */
 
-/** Insert (or no-op upsert) with signatures if logContent is provided */
+/**
+ * Insert (or no-op upsert). `logContent` here is only the webhook's excerpt
+ * (check_run summary, workflow title…), so no signatures are derived from it:
+ * graph-run computes them from the downloaded job logs.
+ */
 export async function logBuildFailure(params: {
   repoOwner: string;
   repoName: string;
+  repoPrivate?: boolean | null;
   prNumber?: number | null;
   commitSha: string;
-  logContent?: string;            // may be undefined at early ingest
+  headBranch?: string | null;
+  baseBranch?: string | null;
+  logContent?: string;            // webhook excerpt; may be undefined at early ingest
   runId?: string | null;
+  runAttempt?: number | null;
+  jobId?: number | null;
+  checkSuiteId?: number | null;
   installationId?: number | null;
 }) {
   const MAX_RETRIES = 3;
   let attempt = 0;
 
-  // Compute signatures only if we have log content
-  const tail = params.logContent ? tailLines(params.logContent, 200) : "";
-  const norm = tail ? normalize(tail) : "";
-  const sigV1 = norm ? sha1(norm) : null;
-  const sigV2 = norm ? sha1(templateize(norm)) : null;
+  const ingestKey = ingestKeyFor(params);
 
   const values = {
     run_id: params.runId ?? null,
+    run_attempt: params.runAttempt ?? null,
+    job_id: params.jobId ?? null,
+    check_suite_id: params.checkSuiteId ?? null,
+    ingest_key: ingestKey,
     repo_owner: params.repoOwner,
     repo_name: params.repoName,
+    repo_private: params.repoPrivate ?? null,
     pr_number: params.prNumber ?? null,
     commit_sha: params.commitSha,
+    head_branch: params.headBranch ?? null,
+    base_branch: params.baseBranch ?? null,
     log_content: params.logContent ?? null,
     installation_id: params.installationId ?? null,
-    error_signature_v1: sigV1,
-    error_signature_v2: sigV2,
-    norm_tail: norm || null,
+    error_signature_v1: null,
+    error_signature_v2: null,
+    norm_tail: null,
     status: "new" as const,
   };
 
-  // If we have a runId, do an idempotent insert-or-noop
-  if (params.runId) {
+  // If we have an ingest key, do an idempotent insert-or-noop
+  if (ingestKey) {
     const q = `
       INSERT INTO build_failures
-        (run_id, repo_owner, repo_name, pr_number, commit_sha, log_content,
+        (run_id, run_attempt, job_id, check_suite_id, ingest_key,
+         repo_owner, repo_name, repo_private, pr_number, commit_sha, head_branch, base_branch, log_content,
          installation_id, error_signature_v1, error_signature_v2, norm_tail, status)
       VALUES
-        (:run_id, :repo_owner, :repo_name, :pr_number, :commit_sha, :log_content,
+        (:run_id, :run_attempt, :job_id, :check_suite_id, :ingest_key,
+         :repo_owner, :repo_name, :repo_private, :pr_number, :commit_sha, :head_branch, :base_branch, :log_content,
          :installation_id, :error_signature_v1, :error_signature_v2, :norm_tail, :status)
       ON DUPLICATE KEY UPDATE
-        run_id = run_id
+        ingest_key = ingest_key
     `;
     while (true) {
       try {
         await sequelize.query(q, { replacements: values });
+        await coalesceAfterIngest(values);
         return;
       } catch (e: any) {
         attempt++;
@@ -223,10 +311,11 @@ export async function logBuildFailure(params: {
     }
   }
 
-  // No runId: simple insert with retries
+  // No ingest key: simple insert with retries
   while (true) {
     try {
       await BuildFailure.create(values as any);
+      await coalesceAfterIngest(values);
       return;
     } catch (e: any) {
       if (e instanceof UniqueConstraintError) return; // treat duplicate as success
@@ -237,6 +326,303 @@ export async function logBuildFailure(params: {
   }
 }
 
+/**
+ * A re-run of the same commit passed (workflow_run success, run_attempt > 1):
+ * flag the earlier failed attempts of that run. Check-run rows carry the run
+ * id (from details_url) but no attempt, so they match on the run alone.
+ */
+export async function markRerunPassed(p: {
+  repoOwner: string;
+  repoName: string;
+  runId: string;
+  runAttempt: number;
+  commitSha: string;
+}): Promise<number> {
+  const [n] = await BuildFailure.update(
+    { rerun_passed: true, rerun_passed_at: new Date() } as any,
+    {
+      where: {
+        repo_owner: p.repoOwner,
+        repo_name: p.repoName,
+        run_id: p.runId,
+        commit_sha: p.commitSha,
+        rerun_passed: false,
+        [Op.or]: [{ run_attempt: null }, { run_attempt: { [Op.lt]: p.runAttempt } }],
+      },
+    }
+  );
+  return n;
+}
+
+/* ------------------------------- Incidents ------------------------------- */
+
+/**
+ * Failures of the same PR head (several failing jobs → several check_run
+ * deliveries + a workflow_run delivery) form one incident. The oldest row
+ * still waiting for analysis is the leader and is the only one analyzed; the
+ * rest point at it via incident_id with status 'coalesced', and graph-run
+ * gathers their logs into one consolidated review. Late deliveries still join
+ * a leader that is being analyzed; it re-reads its members before staging and
+ * starts over once if any arrived (see lateIncidentMembers).
+ */
+export type IncidentKey = {
+  repo_owner: string;
+  repo_name: string;
+  pr_number: number | null;
+  commit_sha: string;
+};
+
+function incidentWhere(k: IncidentKey) {
+  return {
+    repo_owner: k.repo_owner,
+    repo_name: k.repo_name,
+    commit_sha: k.commit_sha,
+    pr_number: k.pr_number ?? null,
+  };
+}
+
+/**
+ * Attach every unassigned 'new' failure of the incident to its leader
+ * (creating the leader on first sight). Only an in-flight leader ('new' or
+ * 'analyzing') takes members — or `self`, the row a worker just claimed.
+ * Safe to re-run; returns the leader id.
+ */
+export async function coalesceIncident(k: IncidentKey, self?: number): Promise<number | null> {
+  const leader = await BuildFailure.findOne({
+    where: {
+      ...incidentWhere(k),
+      [Op.and]: [
+        { [Op.or]: [{ status: { [Op.in]: ["new", "analyzing"] } }, ...(self != null ? [{ failure_id: self }] : [])] },
+        { [Op.or]: [{ incident_id: null }, { incident_id: { [Op.col]: "failure_id" } }] },
+      ],
+    },
+    order: [["failure_id", "ASC"]],
+  });
+  if (!leader) return null;
+  const leaderId = Number(leader.get("failure_id"));
+
+  if (leader.get("incident_id") == null) {
+    await BuildFailure.update({ incident_id: leaderId } as any, { where: { failure_id: leaderId } });
+  }
+  await BuildFailure.update(
+    { incident_id: leaderId, status: "coalesced" } as any,
+    {
+      where: {
+        ...incidentWhere(k),
+        failure_id: { [Op.ne]: leaderId },
+        status: "new",
+        [Op.or]: [{ incident_id: null }, { incident_id: { [Op.col]: "failure_id" } }],
+      },
+    }
+  );
+  return leaderId;
+}
+
+async function coalesceAfterIngest(v: IncidentKey) {
+  if (v.commit_sha === "unknown") return;
+  try {
+    await coalesceIncident(v);
+  } catch (e: any) {
+    // the claim-time pass (joinIncident) catches anything we miss here
+    console.warn("[ingest] incident coalescing failed:", e?.message || e);
+  }
+}
+
+/**
+ * Claim-time pass for a freshly claimed row: fold newer 'new' duplicates into
+ * it, or — if an older incident already exists (ingest race) — give the row
+ * up to that incident. Returns the leader id; !== failure_id → skip it.
+ */
+export async function joinIncident(
+  row: IncidentKey & { failure_id: number },
+  workerId: string
+): Promise<number> {
+  const leaderId = (await coalesceIncident(row, row.failure_id)) ?? row.failure_id;
+  if (leaderId !== row.failure_id) {
+    await BuildFailure.update(
+      { incident_id: leaderId, status: "coalesced", claimed_by: null, lease_expires_at: null } as any,
+      { where: { failure_id: row.failure_id, claimed_by: workerId } }
+    );
+  }
+  return leaderId;
+}
+
+/**
+ * A failed leader's members go back to 'new', to be analyzed on their own.
+ * With `keep`, only members outside it do (late joiners a finished leader's
+ * review didn't cover).
+ */
+export async function releaseIncidentMembers(leaderIds: number[], keep: number[] = []) {
+  if (!leaderIds.length) return;
+  await BuildFailure.update(
+    { status: "new", incident_id: null } as any,
+    {
+      where: {
+        incident_id: { [Op.in]: leaderIds },
+        failure_id: { [Op.notIn]: [...leaderIds, ...keep] },
+        status: "coalesced",
+      },
+    }
+  );
+}
+
+/** Incident members other than the leader itself */
+export async function incidentMembers(leaderId: number): Promise<any[]> {
+  return BuildFailure.findAll({
+    where: { incident_id: leaderId, failure_id: { [Op.ne]: leaderId } },
+    order: [["failure_id", "ASC"]],
+  });
+}
+
+/** Members that joined after the leader read `analyzed` (checked right before staging) */
+export async function lateIncidentMembers(leaderId: number, analyzed: number[]): Promise<number[]> {
+  const rows = await BuildFailure.findAll({
+    attributes: ["failure_id"],
+    where: { incident_id: leaderId, failure_id: { [Op.notIn]: [leaderId, ...analyzed] } },
+  });
+  return rows.map((r) => Number(r.get("failure_id")));
+}
+
+/* ---------------------------- Analysis lease ---------------------------- */
+
+// A claimed failure stays 'analyzing' only while its worker keeps the lease alive
+export const ANALYSIS_LEASE_MS = Number(process.env.ANALYSIS_LEASE_MS ?? "300000");
+// Claims per failure before it is parked as 'failed'
+export const ANALYSIS_MAX_ATTEMPTS = Number(process.env.ANALYSIS_MAX_ATTEMPTS ?? "3");
+
+const leaseUntil = (ms = ANALYSIS_LEASE_MS) => new Date(Date.now() + ms);
+const errorText = (e: unknown) => (e instanceof Error ? e.message : String(e)).slice(0, 4000);
+
+/**
+ * Claim up to `limit` 'new' failures for `workerId` under a lease.
+ * Candidates are taken round-robin across repositories (oldest first within
+ * each repo) so one noisy repo can't starve the rest of the queue. Each row
+ * is then taken with a conditional UPDATE, so concurrent workers never
+ * analyze the same failure.
+ */
+export async function claimBuildFailures(workerId: string, limit: number): Promise<any[]> {
+  const candidates = (await sequelize.query(
+    `
+    SELECT failure_id FROM (
+      SELECT failure_id, failure_timestamp,
+             ROW_NUMBER() OVER (
+               PARTITION BY repo_owner, repo_name
+               ORDER BY failure_timestamp ASC, failure_id ASC
+             ) AS repo_rank
+      FROM build_failures
+      WHERE status = 'new'
+    ) q
+    ORDER BY repo_rank ASC, failure_timestamp ASC, failure_id ASC
+    LIMIT :lim
+    `,
+    { type: QueryTypes.SELECT, replacements: { lim: limit * 2 } } // some will be lost to concurrent workers
+  )) as Array<{ failure_id: number }>;
+
+  const claimed: any[] = [];
+  for (const c of candidates) {
+    if (claimed.length >= limit) break;
+    const now = new Date();
+    const [won] = await BuildFailure.update(
+      {
+        status: "analyzing",
+        claimed_by: workerId,
+        lease_expires_at: leaseUntil(),
+        heartbeat_at: now,
+        attempt_count: sequelize.literal("attempt_count + 1"),
+      } as any,
+      { where: { failure_id: c.failure_id, status: "new" } }
+    );
+    if (!won) continue;
+
+    const row = await BuildFailure.findByPk(c.failure_id);
+    if (row) claimed.push(row);
+  }
+  return claimed;
+}
+
+/** Extend the lease while the owner is still working; false → the lease was lost */
+export async function heartbeatBuildFailure(failureId: number, workerId: string): Promise<boolean> {
+  const [n] = await BuildFailure.update(
+    { heartbeat_at: new Date(), lease_expires_at: leaseUntil() } as any,
+    { where: { failure_id: failureId, status: "analyzing", claimed_by: workerId } }
+  );
+  return n > 0;
+}
+
+/**
+ * Give a claimed failure back after an error: back to 'new' for another try,
+ * or 'failed' once it is not retryable or out of attempts. The error is kept
+ * in last_error either way.
+ */
+export async function releaseBuildFailure(
+  row: { failure_id: number; attempt_count?: number | null },
+  workerId: string,
+  err: unknown,
+  opts?: { retryable?: boolean }
+): Promise<BuildFailureStatus> {
+  const attempts = Number(row.attempt_count ?? 0);
+  const status: BuildFailureStatus =
+    opts?.retryable === false || attempts >= ANALYSIS_MAX_ATTEMPTS ? "failed" : "new";
+
+  const [n] = await BuildFailure.update(
+    {
+      status,
+      last_error: errorText(err),
+      claimed_by: null,
+      lease_expires_at: null,
+    } as any,
+    { where: { failure_id: row.failure_id, status: "analyzing", claimed_by: workerId } }
+  );
+  if (n && status === "failed") await releaseIncidentMembers([row.failure_id]);
+  return status;
+}
+
+/**
+ * Sweeper: 'analyzing' rows whose lease ran out (function timeout/crash)
+ * go back to 'new', or to 'failed' when they already used every attempt.
+ * Legacy rows claimed before leases existed (no lease_expires_at) are
+ * treated as expired once they are older than one lease.
+ */
+export async function reclaimExpiredBuildFailures(): Promise<{ requeued: number; failed: number }> {
+  const now = new Date();
+  const expired = {
+    status: "analyzing",
+    [Op.or]: [
+      { lease_expires_at: { [Op.lt]: now } },
+      { lease_expires_at: null, failure_timestamp: { [Op.lt]: new Date(now.getTime() - ANALYSIS_LEASE_MS) } },
+    ],
+  };
+
+  const exhausted = (await BuildFailure.findAll({
+    attributes: ["failure_id"],
+    where: { ...expired, attempt_count: { [Op.gte]: ANALYSIS_MAX_ATTEMPTS } },
+  })).map((r) => Number(r.get("failure_id")));
+
+  let failed = 0;
+  if (exhausted.length) {
+    [failed] = await BuildFailure.update(
+      {
+        status: "failed",
+        last_error: `analysis lease expired after ${ANALYSIS_MAX_ATTEMPTS} attempt(s)`,
+        claimed_by: null,
+        lease_expires_at: null,
+      } as any,
+      { where: { ...expired, failure_id: { [Op.in]: exhausted } } }
+    );
+    await releaseIncidentMembers(exhausted);
+  }
+  const [requeued] = await BuildFailure.update(
+    {
+      status: "new",
+      last_error: "analysis lease expired",
+      claimed_by: null,
+      lease_expires_at: null,
+    } as any,
+    { where: { ...expired, attempt_count: { [Op.lt]: ANALYSIS_MAX_ATTEMPTS } } }
+  );
+  return { requeued, failed };
+}
+
 /**
  * define only the usable columns; the generated content and content_vector live purely in SQL
  */
@@ -249,12 +635,23 @@ export const FixRecommendation =
       failure_id: { type: DataTypes.BIGINT, allowNull: true },
       repo_owner: { type: DataTypes.STRING(200), allowNull: false },
       repo_name:  { type: DataTypes.STRING(200), allowNull: false },
+      repo_private: { type: DataTypes.BOOLEAN, allowNull: true },
       pr_number:  { type: DataTypes.INTEGER, allowNull: true },
       head_sha:   { type: DataTypes.STRING(64), allowNull: true },
       summary_one_liner: { type: DataTypes.TEXT, allowNull: true },
       rationale:         { type: DataTypes.TEXT("long"), allowNull: true },
       changes_json:      { type: DataTypes.JSON, allowNull: true },
       created_at:        { type: DataTypes.DATE, allowNull: false, defaultValue: DataTypes.NOW },
+      // review outcome, learned from feedback signals (see agents/feedback.ts)
+      outcome: {
+        type: DataTypes.ENUM("pending", "accepted", "rejected"),
+        allowNull: false,
+        defaultValue: "pending",
+      },
+      outcome_score:        { type: DataTypes.INTEGER, allowNull: false, defaultValue: 0 },
+      outcome_signals_json: { type: DataTypes.TEXT, allowNull: true },
+      outcome_checked_at:   { type: DataTypes.DATE, allowNull: true },
+      outcome_at:           { type: DataTypes.DATE, allowNull: true },
     },
     { tableName: "fix_recommendations", timestamps: false }
   );
@@ -264,13 +661,31 @@ export const FixRecommendation =
     {
       id: { type: DataTypes.BIGINT, autoIncrement: true, primaryKey: true },
       action_hash: { type: DataTypes.STRING(64), unique: true, allowNull: false },
-      action_type: { type: DataTypes.ENUM("pr_review"), allowNull: false, defaultValue: "pr_review" },
+      action_type: {
+        type: DataTypes.ENUM("pr_review", "check_run", "commit_comment", "issue"),
+        allowNull: false,
+        defaultValue: "pr_review",
+      },
       head_sha: { type: DataTypes.STRING(64), allowNull: true },
       installation_id: { type: DataTypes.BIGINT, allowNull: true },
+      failure_id: { type: DataTypes.BIGINT, allowNull: true },
+      repo_owner: { type: DataTypes.STRING(200), allowNull: true },
+      repo_name: { type: DataTypes.STRING(200), allowNull: true },
+      pr_number: { type: DataTypes.INTEGER, allowNull: true },
+      dedupe_key: { type: DataTypes.STRING(64), allowNull: true },      // no-PR issues: repo + branch + signature
       payload_json: { type: DataTypes.TEXT("long"), allowNull: false }, // LONGTEXT
-      status: { type: DataTypes.ENUM("staged", "dispatched", "error"), allowNull: false, defaultValue: "staged" },
+      status: {
+        type: DataTypes.ENUM("staged", "dispatching", "dispatched", "error", "dead", "discarded", "superseded"),
+        allowNull: false,
+        defaultValue: "staged",
+      },
       attempt_count: { type: DataTypes.INTEGER, allowNull: false, defaultValue: 0 },
+      next_attempt_at: { type: DataTypes.DATE, allowNull: true },
+      claimed_by: { type: DataTypes.STRING(128), allowNull: true },
+      lease_expires_at: { type: DataTypes.DATE, allowNull: true },
       dispatched_at: { type: DataTypes.DATE, allowNull: true },
+      github_ref_json: { type: DataTypes.TEXT, allowNull: true }, // ids of what was posted (review/comments/…)
+      degraded_json: { type: DataTypes.TEXT, allowNull: true },   // inline comments GitHub rejected, posted as diagnostics
       last_error: { type: DataTypes.TEXT, allowNull: true },
       created_at: { type: DataTypes.DATE, allowNull: false, defaultValue: DataTypes.NOW },
     },
@@ -280,9 +695,170 @@ export const FixRecommendation =
       indexes: [
         { unique: true, fields: ["action_hash"] },
         { fields: ["status", "id"] },                 // <- composite for faster queue scans
+        { fields: ["status", "next_attempt_at"] },    // <- retry scheduler
+        { fields: ["status", "lease_expires_at"] },   // <- expired dispatch leases
         { fields: ["head_sha"] },
         { fields: ["installation_id"] },
+        { fields: ["repo_owner", "repo_name", "pr_number"] },
+        { fields: ["repo_owner", "repo_name", "dedupe_key"] },
+        { fields: ["failure_id"] },
       ],
     }
   );
-  
\ No newline at end of file
+  
+
+/** Per-repo delivery preferences; a missing row means defaults */
+export const RepoSetting =
+  sequelize.models.repo_settings ??
+  sequelize.define(
+    "repo_settings",
+    {
+      repo_owner: { type: DataTypes.STRING(200), primaryKey: true },
+      repo_name: { type: DataTypes.STRING(200), primaryKey: true },
+      review_channel: {
+        type: DataTypes.ENUM("pr_review", "check_run"),
+        allowNull: false,
+        defaultValue: "pr_review",
+      },
+      updated_at: { type: DataTypes.DATE, allowNull: false, defaultValue: DataTypes.NOW },
+    },
+    { tableName: "repo_settings", timestamps: false }
+  );
+
+/** Per-installation preferences; a missing row means defaults */
+export const InstallationSetting =
+  sequelize.models.installation_settings ??
+  sequelize.define(
+    "installation_settings",
+    {
+      installation_id: { type: DataTypes.BIGINT, primaryKey: true },
+      // whose fixes Analysis may learn from (opt-in beyond the repo itself)
+      knowledge_scope: {
+        type: DataTypes.ENUM("repo", "owner", "global"),
+        allowNull: false,
+        defaultValue: "repo",
+      },
+      updated_at: { type: DataTypes.DATE, allowNull: false, defaultValue: DataTypes.NOW },
+    },
+    { tableName: "installation_settings", timestamps: false }
+  );
+
+export type InstallationSettings = { knowledge_scope: KnowledgeScope };
+
+const DEFAULT_INSTALLATION_SETTINGS: InstallationSettings = { knowledge_scope: "repo" };
+
+/** Never throws: falls back to defaults (repo-only knowledge) */
+export async function getInstallationSettings(installation_id: number | null | undefined): Promise<InstallationSettings> {
+  if (installation_id == null) return DEFAULT_INSTALLATION_SETTINGS;
+  try {
+    const row = await InstallationSetting.findByPk(installation_id);
+    if (!row) return DEFAULT_INSTALLATION_SETTINGS;
+    const j = row.toJSON() as InstallationSettings;
+    return { ...DEFAULT_INSTALLATION_SETTINGS, knowledge_scope: j.knowledge_scope ?? "repo" };
+  } catch (e: any) {
+    console.warn("[settings] installation_settings lookup failed; using defaults:", e?.message || e);
+    return DEFAULT_INSTALLATION_SETTINGS;
+  }
+}
+
+/** Error signatures muted per repo via `/resolvci ignore <signature>` */
+export const IgnoredSignature =
+  sequelize.models.ignored_signatures ??
+  sequelize.define(
+    "ignored_signatures",
+    {
+      repo_owner: { type: DataTypes.STRING(200), primaryKey: true },
+      repo_name: { type: DataTypes.STRING(200), primaryKey: true },
+      signature: { type: DataTypes.STRING(40), primaryKey: true }, // v1/v2 signature or a prefix of one
+      created_by: { type: DataTypes.STRING(200), allowNull: true },
+      created_at: { type: DataTypes.DATE, allowNull: false, defaultValue: DataTypes.NOW },
+    },
+    { tableName: "ignored_signatures", timestamps: false }
+  );
+
+/** The muted signature matching any of `sigs` (prefix match), or null */
+export async function findIgnoredSignature(
+  repo_owner: string,
+  repo_name: string,
+  sigs: Array<string | null | undefined>
+): Promise<string | null> {
+  const wanted = sigs.filter((x): x is string => !!x);
+  if (!wanted.length) return null;
+  const rows = await IgnoredSignature.findAll({ where: { repo_owner, repo_name } });
+  for (const r of rows) {
+    const sig = String(r.get("signature"));
+    if (wanted.some((w) => w.startsWith(sig))) return sig;
+  }
+  return null;
+}
+
+/** Most recent failure (incident leader) of a PR at its current head, if any */
+export async function latestFailureForPR(repo_owner: string, repo_name: string, pr_number: number, head_sha: string) {
+  return BuildFailure.findOne({
+    where: {
+      repo_owner,
+      repo_name,
+      pr_number,
+      commit_sha: head_sha,
+      status: { [Op.notIn]: ["coalesced", "superseded"] },
+      [Op.or]: [{ incident_id: null }, { incident_id: { [Op.col]: "failure_id" } }],
+    },
+    order: [["failure_id", "DESC"]],
+  });
+}
+
+export type RepoSettings = { review_channel: ReviewChannel };
+
+const DEFAULT_REPO_SETTINGS: RepoSettings = { review_channel: "pr_review" };
+
+/** Never throws: a settings lookup must not block the pipeline */
+export async function getRepoSettings(repo_owner: string, repo_name: string): Promise<RepoSettings> {
+  try {
+    const row = await RepoSetting.findOne({ where: { repo_owner, repo_name } });
+    if (!row) return DEFAULT_REPO_SETTINGS;
+    const j = row.toJSON() as RepoSettings;
+    return { ...DEFAULT_REPO_SETTINGS, review_channel: j.review_channel ?? "pr_review" };
+  } catch (e: any) {
+    console.warn("[settings] repo_settings lookup failed; using defaults:", e?.message || e);
+    return DEFAULT_REPO_SETTINGS;
+  }
+}
+
+/**
+ * A new commit was pushed to the PR (pull_request.synchronize): pending work
+ * for any older head is pointless. Failures not yet proposed and outbox rows
+ * not yet claimed for another head SHA become 'superseded'. Rows already
+ * being dispatched are caught by the head check in dispatchOneOutboundAction.
+ */
+export async function supersedeStaleForPR(p: {
+  repoOwner: string;
+  repoName: string;
+  prNumber: number;
+  headSha: string;
+}): Promise<{ failures: number; actions: number }> {
+  const [failures] = await BuildFailure.update(
+    { status: "superseded", claimed_by: null, lease_expires_at: null } as any,
+    {
+      where: {
+        repo_owner: p.repoOwner,
+        repo_name: p.repoName,
+        pr_number: p.prNumber,
+        commit_sha: { [Op.ne]: p.headSha },
+        status: { [Op.in]: ["new", "analyzing", "coalesced"] },
+      },
+    }
+  );
+  const [actions] = await OutboundAction.update(
+    { status: "superseded", next_attempt_at: null, last_error: `superseded by ${p.headSha}` },
+    {
+      where: {
+        repo_owner: p.repoOwner,
+        repo_name: p.repoName,
+        pr_number: p.prNumber,
+        head_sha: { [Op.ne]: p.headSha },
+        status: { [Op.in]: ["staged", "error"] },
+      },
+    }
+  );
+  return { failures, actions };
+}
@@ -10,10 +10,14 @@ export type ToolInvocation = {
 
 export type FixChange = {
   path: string;
+  type?: "fix" | "diagnosis";
+  match?: { original?: string | null };
   hunk: { after: string };
   anchor?: { line: number };
   language?: string | null;
-  validation?: { appliesCleanly: boolean; isNoop?: boolean };
+  validation?: { appliesCleanly: boolean; isNoop?: boolean; parses?: boolean | null; error?: string | null };
+  diff?: string | null;
+  span?: { start_line: number; end_line: number; original: string | null } | null;
 };
 export type FixChangesJson = FixChange[];
 